@@ -3,7 +3,8 @@
  * Safari MCP Server Entry Point
  *
  * Main entry point for the Safari MCP server application. Handles
- * server initialization and transport setup.
+ * server initialization and transport setup, and the `replay` command
+ * running a recorded flow file outside an MCP client.
  *
  * @module index
  * @author AXIVO
@@ -11,8 +12,34 @@
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { ToolError } from './server/error.js';
 import { Mcp } from './server/mcp.js';
 
+/**
+ * Replays a recorded flow file and prints the step outcomes
+ *
+ * Exits with status 1 when a step fails, so flows can run as smoke tests.
+ *
+ * @async
+ * @function replay
+ * @param {string[]} args - Command arguments following `replay`
+ */
+async function replay(args: string[]): Promise<void> {
+  const path = args.find((arg) => !arg.startsWith('--'));
+  if (!path) {
+    console.error('Usage: mcp-safari replay <flow.json> [--continue-on-error]');
+    process.exit(2);
+  }
+  try {
+    const result = await new Mcp(undefined, null).replay(path, args.includes('--continue-on-error'));
+    console.log(JSON.stringify(result, null, 2));
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(`Replay failed: ${ToolError.from(error).message}`);
+    process.exit(1);
+  }
+}
+
 /**
  * Main entry point for the Safari MCP Server
  *
@@ -41,6 +68,10 @@ async function main(): Promise<void> {
       return;
     }
   });
+  if (process.argv[2] === 'replay') {
+    await replay(process.argv.slice(3));
+    return;
+  }
   const mcpServer = new Mcp();
   const transport = new StdioServerTransport();
   try {
@@ -1,9 +1,10 @@
 /**
  * AppleScript template library for Safari MCP Server
  *
- * Provides parameterized AppleScript strings for Safari automation.
- * Each method returns a self-contained script string ready for
- * execution via osascript.
+ * Provides parameterized AppleScript strings for Safari automation, plus
+ * JXA scripts where results are serialized with `JSON.stringify`. Each
+ * method returns a self-contained script string ready for execution via
+ * osascript.
  *
  * @module lib/automation
  * @author AXIVO
@@ -51,7 +52,7 @@ tell application "Safari"
   tell window id {{WINDOW}}
     set newTab to (make new tab)
     set current tab to newTab
-    return index of newTab
+    return (index of newTab as string) & "," & (count of tabs)
   end tell
 end tell
 
@@ -60,7 +61,7 @@ tell application "Safari"
   tell window id {{WINDOW}}
     set newTab to (make new tab with properties {URL:"{{URL}}"})
     set current tab to newTab
-    return index of newTab
+    return (index of newTab as string) & "," & (count of tabs)
   end tell
 end tell
 
@@ -90,16 +91,106 @@ tell application "Safari"
   close window id {{WINDOW}}
 end tell
 
---- tabExists
+--- focusWindow
 tell application "Safari"
+  set index of window id {{WINDOW}} to 1
+end tell
+
+--- moveTab
+tell application "Safari"
+  move tab {{INDEX}} of window id {{WINDOW}} to end of tabs of window id {{TARGET}}
+  return count of tabs of window id {{TARGET}}
+end tell
+
+--- newWindow
+tell application "Safari"
+  activate
+  make new document
+  return id of front window
+end tell
+
+--- newPrivateWindow
+tell application "Safari"
+  activate
+  set windowCount to count of windows
+end tell
+tell application "System Events"
+  keystroke "n" using {command down, shift down}
+end tell
+tell application "Safari"
+  repeat 50 times
+    if (count of windows) > windowCount then exit repeat
+    delay 0.1
+  end repeat
+  if (count of windows) is windowCount then error "Private window did not open"
+  return id of front window
+end tell
+
+--- windowCount
+tell application "Safari"
+  return count of windows
+end tell
+
+--- locateTab
+tell application "Safari"
+  set targetWindow to missing value
   try
-    tell window id {{WINDOW}}
-      get URL of tab {{INDEX}}
-      return "true"
-    end tell
-  on error
-    return "false"
+    set targetWindow to window id {{WINDOW}}
   end try
+  set foundWindow to missing value
+  set found to 0
+  set method to "marker"
+  if targetWindow is not missing value then
+    if {{INDEX}} is not greater than (count of tabs of targetWindow) then
+      try
+        if (do JavaScript "window.name" in tab {{INDEX}} of targetWindow) is "{{MARKER}}" then
+          set foundWindow to targetWindow
+          set found to {{INDEX}}
+        end if
+      end try
+    end if
+  end if
+  if found is 0 then
+    repeat with w in windows
+      try
+        repeat with i from 1 to count of tabs of w
+          try
+            if (do JavaScript "window.name" in tab i of w) is "{{MARKER}}" then
+              set foundWindow to contents of w
+              set found to i
+              exit repeat
+            end if
+          end try
+        end repeat
+      end try
+      if found is not 0 then exit repeat
+    end repeat
+  end if
+  if found is 0 and targetWindow is not missing value then
+    set tabCount to count of tabs of targetWindow
+    if "{{URL}}" is not "" then
+      set method to "url"
+      set matches to 0
+      repeat with i from 1 to tabCount
+        if URL of tab i of targetWindow is "{{URL}}" then
+          set matches to matches + 1
+          set found to i
+        end if
+      end repeat
+      if matches is not 1 then set found to 0
+    end if
+    if found is 0 and tabCount is {{COUNT}} and {{INDEX}} is not greater than tabCount then
+      set method to "index"
+      set found to {{INDEX}}
+    end if
+    if found is not 0 then set foundWindow to targetWindow
+  end if
+  if found is 0 then
+    return ""
+  end if
+  set tabURL to URL of tab found of foundWindow
+  if tabURL is missing value then set tabURL to ""
+  return method & "," & (id of foundWindow) & "," & found & "," & (count of tabs of foundWindow) & linefeed & tabURL
 end tell
 
 --- executeScript
@@ -117,27 +208,64 @@ tell application "Safari"
   return URL of tab {{INDEX}} of window id {{WINDOW}}
 end tell
 
+--- tabList
+function tabList(safari, w, loading) {
+  const windowId = w.id();
+  const current = w.currentTab.index();
+  const urls = w.tabs.url();
+  return w.tabs.name().map((name, i) => {
+    const tab = { active: i + 1 === current, index: i + 1, title: name || '', url: urls[i] || '', windowId };
+    if (loading) {
+      try {
+        tab.loading = safari.doJavaScript('document.readyState', { in: w.tabs[i] }) !== 'complete';
+      } catch (error) {
+        tab.loading = false;
+      }
+    }
+    return tab;
+  });
+}
+
 --- listTabs
-tell application "Safari"
-  tell window id {{WINDOW}}
-    set currentIdx to index of current tab
-    set tabCount to count of tabs
-    set output to "["
-    repeat with i from 1 to tabCount
-      set tabName to name of tab i
-      set tabURL to URL of tab i
-      if i = currentIdx then
-        set isActive to "true"
-      else
-        set isActive to "false"
-      end if
-      if i > 1 then set output to output & ","
-      set output to output & "{\\"active\\":" & isActive & ",\\"index\\":" & i & ",\\"title\\":\\"" & tabName & "\\",\\"url\\":\\"" & tabURL & "\\"}"
-    end repeat
-    set output to output & "]"
-    return output
-  end tell
-end tell
+(() => {
+  const safari = Application('Safari');
+  const windowId = {{WINDOW}};
+  const loading = {{LOADING}};
+  const windows = [];
+  safari.windows().forEach((w) => {
+    try {
+      if (windowId === null || w.id() === windowId) {
+        windows.push({ id: w.id(), tabs: tabList(safari, w, loading) });
+      }
+    } catch (error) {
+      // Windows without tabs, such as Settings, have no tab list.
+    }
+  });
+  return JSON.stringify(windows);
+})()
+
+--- pageState
+(() => {
+  const safari = Application('Safari');
+  if (safari.windows.length === 0) {
+    return '';
+  }
+  const windowId = {{WINDOW}};
+  const index = {{INDEX}};
+  const w = windowId === null ? safari.windows[0] : safari.windows.byId(windowId);
+  const tab = index === null ? w.currentTab : w.tabs[index - 1];
+  const state = safari.doJavaScript({{SCRIPT}}, { in: tab });
+  return state + '\\n' + JSON.stringify(tabList(safari, w, false));
+})()
+
+--- safariRunning
+return application "Safari" is running
+
+--- screenCaptureAccess
+(() => {
+  ObjC.import('CoreGraphics');
+  return String($.CGPreflightScreenCaptureAccess());
+})()
 
 --- setBounds
 tell application "Safari"
@@ -232,7 +360,7 @@ export class Automation {
    *
    * @param {number} windowId - Window identifier
    * @param {string} [url] - URL to open in the new tab
-   * @returns {string} AppleScript string returning the new tab index
+   * @returns {string} AppleScript string returning "<tabIndex>,<tabCount>"
    */
   createTab(windowId: number, url?: string): string {
     if (url) {
@@ -279,6 +407,16 @@ export class Automation {
       .replace('{{SCRIPT}}', escaped);
   }
 
+  /**
+   * Brings a window to the front
+   *
+   * @param {number} windowId - Window identifier
+   * @returns {string} AppleScript string
+   */
+  focusWindow(windowId: number): string {
+    return this.get('focusWindow').replace('{{WINDOW}}', String(windowId));
+  }
+
   /**
    * Gets the front window id and its current tab index in one call
    *
@@ -324,13 +462,112 @@ export class Automation {
   }
 
   /**
-   * Lists tabs in a window with index, title, URL, and active status
+   * Lists Safari windows with their tabs as serialized JSON
+   *
+   * Each tab reports index, title, URL, window id, and active status.
+   * With `loading`, each tab also reports whether its document is still
+   * loading, which costs one JavaScript evaluation per tab. Windows without
+   * tabs, such as Settings, are skipped.
+   *
+   * @param {number} [windowId] - Window identifier; lists every window, front first, when omitted
+   * @param {boolean} [loading=false] - Whether to report each tab's loading state
+   * @returns {string} JXA script returning JSON array of `{id, tabs}`
+   */
+  listTabs(windowId?: number, loading: boolean = false): string {
+    return this.get('tabList') + '\n' + this.get('listTabs')
+      .replace('{{WINDOW}}', windowId === undefined ? 'null' : String(windowId))
+      .replace('{{LOADING}}', String(loading));
+  }
+
+  /**
+   * Finds a working tab again by its page marker, URL, or unchanged position
+   *
+   * Checks the remembered index first, then scans every window for a tab
+   * whose `window.name` equals the marker, so tabs moved between windows
+   * are found. Falls back to the only tab in the remembered window at the
+   * last known URL, then to the remembered index when the tab count is
+   * unchanged. Returns an empty string when no tab matches.
    *
    * @param {number} windowId - Window identifier
-   * @returns {string} AppleScript string returning JSON array
+   * @param {number} index - Last known tab index (1-based)
+   * @param {string} marker - Marker stored in the tab's `window.name`
+   * @param {string} url - Last known tab URL
+   * @param {number} tabCount - Window tab count when the tab was last located
+   * @returns {string} AppleScript string returning "<method>,<windowId>,<index>,<tabCount>" and the tab URL on a second line
+   */
+  locateTab(windowId: number, index: number, marker: string, url: string, tabCount: number): string {
+    const escaped = url.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    return this.get('locateTab')
+      .replace('{{WINDOW}}', String(windowId))
+      .replace(/\{\{INDEX\}\}/g, String(index))
+      .replace(/\{\{MARKER\}\}/g, marker)
+      .replace(/\{\{URL\}\}/g, () => escaped)
+      .replace('{{COUNT}}', String(tabCount));
+  }
+
+  /**
+   * Moves a tab to the end of another window
+   *
+   * @param {number} windowId - Source window identifier
+   * @param {number} index - Tab index in the source window (1-based)
+   * @param {number} targetWindowId - Destination window identifier
+   * @returns {string} AppleScript string returning the moved tab's index in the destination window
+   */
+  moveTab(windowId: number, index: number, targetWindowId: number): string {
+    return this.get('moveTab')
+      .replace('{{WINDOW}}', String(windowId))
+      .replace('{{INDEX}}', String(index))
+      .replace(/\{\{TARGET\}\}/g, String(targetWindowId));
+  }
+
+  /**
+   * Activates Safari and opens a new window
+   *
+   * A private window is opened with the Shift-Command-N shortcut through
+   * System Events, which needs the Accessibility permission, since Safari
+   * has no scripting property for private browsing.
+   *
+   * @param {boolean} [privateWindow=false] - Whether to open a private window
+   * @returns {string} AppleScript string returning the new window id
    */
-  listTabs(windowId: number): string {
-    return this.get('listTabs').replace('{{WINDOW}}', String(windowId));
+  newWindow(privateWindow: boolean = false): string {
+    return this.get(privateWindow ? 'newPrivateWindow' : 'newWindow');
+  }
+
+  /**
+   * Runs a page-state script on a tab and lists the tabs of its window
+   *
+   * Returns the script result and the tab list JSON array separated by a
+   * newline, in a single round trip that needs no prior target lookup.
+   *
+   * @param {string} script - JavaScript code returning single-line JSON
+   * @param {number} [index] - Tab index (1-based); defaults to the current tab
+   * @param {number} [windowId] - Window identifier; defaults to the front window
+   * @returns {string} JXA script
+   */
+  pageState(script: string, index?: number, windowId?: number): string {
+    return this.get('tabList') + '\n' + this.get('pageState')
+      .replace('{{WINDOW}}', windowId === undefined ? 'null' : String(windowId))
+      .replace('{{INDEX}}', index === undefined ? 'null' : String(index))
+      .replace('{{SCRIPT}}', () => JSON.stringify(script));
+  }
+
+  /**
+   * Checks whether Safari is running without launching it
+   *
+   * @returns {string} AppleScript string returning "true" or "false"
+   */
+  safariRunning(): string {
+    return this.get('safariRunning');
+  }
+
+  /**
+   * Checks the Screen Recording permission without prompting for it
+   *
+   * @returns {string} JXA script returning "true" or "false"
+   */
+  screenCaptureAccess(): string {
+    return this.get('screenCaptureAccess');
   }
 
   /**
@@ -382,15 +619,11 @@ export class Automation {
   }
 
   /**
-   * Probes whether a tab still exists in a window
+   * Counts the open Safari windows
    *
-   * @param {number} windowId - Window identifier
-   * @param {number} index - Tab index (1-based)
-   * @returns {string} AppleScript string returning "true" or "false"
+   * @returns {string} AppleScript string returning the window count
    */
-  tabExists(windowId: number, index: number): string {
-    return this.get('tabExists')
-      .replace('{{WINDOW}}', String(windowId))
-      .replace('{{INDEX}}', String(index));
+  windowCount(): string {
+    return this.get('windowCount');
   }
 }
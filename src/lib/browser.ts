@@ -10,11 +10,230 @@
  * @license BSD-3-Clause
  */
 
+/**
+ * Shadow DOM and same-origin frame traversal helpers installed in the page
+ *
+ * Selectors resolve across open shadow roots and same-origin iframes. The
+ * `>>>` combinator hops explicitly into the frame document or shadow root of
+ * the element matched by the preceding segment, e.g.
+ * `iframe#checkout >>> input[name="card"]`.
+ */
+interface SafariDom {
+  active(): Element | null;
+  children(node: Node): Node[];
+  fromPoint(x: number, y: number): Element | null;
+  query<T extends Element = HTMLElement>(selector: string, root?: ParentNode): T | null;
+  queryAll<T extends Element = HTMLElement>(selector: string, root?: ParentNode): T[];
+  rect(el: Element): { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Network log entry - one fetch, XHR, WebSocket, or beacon request
+ */
+export type NetworkEntry = {
+  id: number;
+  type: 'beacon' | 'fetch' | 'websocket' | 'xhr';
+  method: string;
+  url: string;
+  status?: number;
+  startTime: number;
+  duration?: number;
+  requestBody?: string;
+  responseBody?: string;
+  error?: string;
+  messagesSent?: number;
+  messagesReceived?: number;
+};
+
+/**
+ * Drag endpoint - an element by CSS selector or visible text, or viewport coordinates
+ */
+export type DragPoint = {
+  selector?: string;
+  text?: string;
+  x?: number;
+  y?: number;
+};
+
+/**
+ * Fill result - outcome of setting one form field
+ */
+export type FillResult = {
+  field: string;
+  ok: boolean;
+  element?: string;
+  error?: string;
+};
+
+/**
+ * Wait condition evaluated in the page by a watcher
+ */
+export type WatchCondition =
+  | { kind: 'domStable'; quietMs: number }
+  | { kind: 'networkIdle'; quietMs: number }
+  | { kind: 'pageLoad' }
+  | { kind: 'selector'; selector: string }
+  | { kind: 'selectorGone'; selector: string }
+  | { kind: 'text'; text: string };
+
+/**
+ * Watcher result slot installed in the page - set once the condition holds
+ */
+interface SafariWatch {
+  matched: boolean;
+  started: number;
+}
+
+/**
+ * Network log installed in the page - entries plus in-flight tracking
+ */
+interface SafariNetwork {
+  entries: NetworkEntry[];
+  pending: number;
+  lastActivity: number;
+  nextId: number;
+}
+
 declare global {
   interface Window {
+    __safariDom?: SafariDom;
     __safariErrors?: string[];
+    __safariNetwork?: SafariNetwork;
+    __safariRefCounter?: number;
+    __safariUploads?: Record<string, string[][]>;
     __safariWarnings?: string[];
+    __safariWatches?: Record<string, SafariWatch>;
+  }
+}
+
+/**
+ * Installs the traversal helpers on `window.__safariDom`
+ *
+ * Serialized ahead of every element-resolving script. Idempotent - the
+ * helpers are installed once per page and reused by later scripts.
+ */
+function installDom(): void {
+  if (window.__safariDom) {
+    return;
+  }
+  function frameDocument(el: Element): Document | null {
+    if (el.tagName !== 'IFRAME' && el.tagName !== 'FRAME') {
+      return null;
+    }
+    try {
+      return (el as HTMLIFrameElement).contentDocument;
+    } catch {
+      return null;
+    }
+  }
+  function scopes(root: ParentNode): ParentNode[] {
+    const out: ParentNode[] = [root];
+    const all = root.querySelectorAll('*');
+    for (let i = 0; i < all.length; i++) {
+      const nested = all[i].shadowRoot || frameDocument(all[i]);
+      if (nested) {
+        out.push(...scopes(nested));
+      }
+    }
+    return out;
+  }
+  function enter(el: Element): ParentNode {
+    return el.shadowRoot || frameDocument(el) || el;
+  }
+  function resolve<T extends Element>(selector: string, root: ParentNode): T[] {
+    const hops = selector.split('>>>').map((hop) => hop.trim()).filter((hop) => hop);
+    let current: ParentNode[] = [root];
+    let matches: T[] = [];
+    for (let i = 0; i < hops.length; i++) {
+      matches = [];
+      for (let j = 0; j < current.length; j++) {
+        const nested = scopes(current[j]);
+        for (let k = 0; k < nested.length; k++) {
+          matches.push(...Array.from(nested[k].querySelectorAll<T>(hops[i])));
+        }
+      }
+      current = matches.map(enter);
+    }
+    return matches;
   }
+  window.__safariDom = {
+    active(): Element | null {
+      let el = document.activeElement;
+      while (el) {
+        const nested = el.shadowRoot ? el.shadowRoot.activeElement : (frameDocument(el) || { activeElement: null }).activeElement;
+        if (!nested || nested === el) {
+          break;
+        }
+        el = nested;
+      }
+      return el;
+    },
+    children(node: Node): Node[] {
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        return Array.from(node.childNodes);
+      }
+      const el = node as Element;
+      if (el.shadowRoot) {
+        return Array.from(el.shadowRoot.childNodes);
+      }
+      if (el.tagName === 'SLOT') {
+        const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true });
+        return assigned.length ? assigned : Array.from(el.childNodes);
+      }
+      const doc = frameDocument(el);
+      if (doc) {
+        return doc.body ? [doc.body] : [];
+      }
+      return Array.from(el.childNodes);
+    },
+    fromPoint(x: number, y: number): Element | null {
+      let el = document.elementFromPoint(x, y);
+      let localX = x;
+      let localY = y;
+      while (el) {
+        if (el.shadowRoot) {
+          const nested = el.shadowRoot.elementFromPoint(localX, localY);
+          if (nested && nested !== el) {
+            el = nested;
+            continue;
+          }
+        }
+        const doc = frameDocument(el);
+        if (!doc) {
+          break;
+        }
+        const rect = el.getBoundingClientRect();
+        localX -= rect.left + el.clientLeft;
+        localY -= rect.top + el.clientTop;
+        const nested = doc.elementFromPoint(localX, localY);
+        if (!nested) {
+          break;
+        }
+        el = nested;
+      }
+      return el;
+    },
+    query<T extends Element = HTMLElement>(selector: string, root?: ParentNode): T | null {
+      return resolve<T>(selector, root || document)[0] || null;
+    },
+    queryAll<T extends Element = HTMLElement>(selector: string, root?: ParentNode): T[] {
+      return resolve<T>(selector, root || document);
+    },
+    rect(el: Element): { x: number; y: number; width: number; height: number } {
+      const rect = el.getBoundingClientRect();
+      let x = rect.x;
+      let y = rect.y;
+      let view: Window | null = el.ownerDocument.defaultView;
+      while (view && view.frameElement) {
+        const frame = view.frameElement;
+        const frameRect = frame.getBoundingClientRect();
+        x += frameRect.left + frame.clientLeft;
+        y += frameRect.top + frame.clientTop;
+        view = view.parent;
+      }
+      return { x, y, width: rect.width, height: rect.height };
+    }
+  };
 }
 
 /**
@@ -23,7 +242,8 @@ declare global {
  * Each method contains a real function with proper indentation and
  * editor support. The serialize helper converts functions to IIFE
  * strings using toString() and JSON.stringify for safe parameter
- * injection.
+ * injection. Element-resolving scripts are serialized with the
+ * traversal helpers so selectors reach into shadow roots and frames.
  *
  * @class Browser
  */
@@ -41,11 +261,109 @@ export class Browser {
     return '(' + fn.toString() + ')(' + params + ')';
   }
 
+  /**
+   * Serializes a function into an IIFE string preceded by the traversal helpers
+   *
+   * The comma expression installs `window.__safariDom` first and evaluates
+   * to the script's return value.
+   *
+   * @private
+   * @param {Function} fn - Function to serialize
+   * @param {...*} args - Arguments to pass to the function
+   * @returns {string} IIFE string ready for browser execution
+   */
+  private serializeWithDom<T extends unknown[]>(fn: (...args: T) => unknown, ...args: T): string {
+    return this.serialize(installDom) + ', ' + this.serialize(fn, ...args);
+  }
+
+  /**
+   * Builds a script to set a checkbox, radio, or switch to an explicit state
+   *
+   * Targets a native checkbox or radio, or an element with a `checkbox`,
+   * `radio`, or `switch` role or an `aria-checked` attribute, found by CSS
+   * selector or by label, `aria-label`, or visible text. A label or wrapper
+   * resolves to the control inside it. The control is clicked only when its
+   * state differs; a native control the click did not change is set directly,
+   * dispatching input and change events for framework reactivity.
+   *
+   * @param {string} [selector] - CSS selector for the target control
+   * @param {string} [text] - Label or visible text (case-insensitive partial match)
+   * @param {boolean} [checked] - State to set
+   * @returns {string} Browser script string returning `{ element, checked, changed }` JSON
+   */
+  check(selector?: string, text?: string, checked: boolean = true): string {
+    function script(selector: string, searchText: string, checked: boolean): string {
+      const dom = window.__safariDom!;
+      const checkables = 'input[type="checkbox"], input[type="radio"], [role="checkbox"], [role="radio"], [role="switch"], [aria-checked]';
+      const native = (el: HTMLElement): el is HTMLInputElement => el.tagName === 'INPUT' && ((el as HTMLInputElement).type === 'checkbox' || (el as HTMLInputElement).type === 'radio');
+      const checkable = (el: HTMLElement): boolean => native(el) || el.matches(checkables);
+      const state = (el: HTMLElement): boolean => native(el) ? el.checked : el.getAttribute('aria-checked') === 'true';
+      let el: HTMLElement | null = null;
+      if (selector) {
+        el = dom.query(selector);
+        if (!el) {
+          return 'No element found for selector: ' + selector;
+        }
+      } else if (searchText) {
+        const all = dom.queryAll(checkables);
+        let bestLen = Infinity;
+        for (let i = 0; i < all.length; i++) {
+          const candidate = all[i];
+          const labels = native(candidate) && candidate.labels ? Array.from(candidate.labels).map((l) => l.textContent || '').join(' ') : '';
+          const labelledBy = (candidate.getAttribute('aria-labelledby') || '').split(/\s+/).map((id) => {
+            const label = id ? candidate.ownerDocument.getElementById(id) : null;
+            return label ? label.textContent || '' : '';
+          }).join(' ');
+          const candidateText = [labels, labelledBy, candidate.getAttribute('aria-label') || '', native(candidate) ? '' : candidate.textContent || '']
+            .join(' ').replace(/\s+/g, ' ').trim().toLowerCase();
+          if (candidateText.indexOf(searchText) !== -1 && candidateText.length < bestLen) {
+            el = candidate;
+            bestLen = candidateText.length;
+          }
+        }
+        if (!el) {
+          return 'No element matched text: ' + searchText;
+        }
+      } else {
+        return 'Missing required argument: selector or text';
+      }
+      if (!checkable(el)) {
+        const inner = el.tagName === 'LABEL' ? (el as HTMLLabelElement).control as HTMLElement | null : null;
+        el = inner && checkable(inner) ? inner : el.querySelector<HTMLElement>(checkables);
+        if (!el) {
+          return 'Element at ' + (selector || searchText) + ' is not a checkbox, radio, or switch';
+        }
+      }
+      const desc = el.tagName.toLowerCase() + (el.getAttribute('type') ? '[type=' + el.getAttribute('type') + ']' : '')
+        + (el.getAttribute('role') ? '[role=' + el.getAttribute('role') + ']' : '') + (el.getAttribute('name') ? '[name=' + el.getAttribute('name') + ']' : '') + (el.id ? '#' + el.id : '');
+      const before = state(el);
+      if (before === checked) {
+        return JSON.stringify({ element: desc, checked: before, changed: false });
+      }
+      if (!checked && ((native(el) && el.type === 'radio') || el.getAttribute('role') === 'radio')) {
+        return 'Radio buttons cannot be unchecked; check another option in the group instead of ' + desc;
+      }
+      if ((el as HTMLInputElement).disabled === true || el.getAttribute('aria-disabled') === 'true') {
+        return 'Element ' + desc + ' is disabled';
+      }
+      el.scrollIntoView({ block: 'center' });
+      el.click();
+      if (native(el) && el.checked !== checked) {
+        el.checked = checked;
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+      const after = state(el);
+      return JSON.stringify({ element: desc, checked: after, changed: after !== before });
+    }
+    return this.serializeWithDom(script, selector || '', (text || '').toLowerCase(), checked);
+  }
+
   /**
    * Builds a script to click an element at specific viewport coordinates
    *
-   * Uses document.elementFromPoint to find the element at the given x/y
-   * position, then scrolls it into view and clicks it.
+   * Finds the element at the given x/y position, descending into open shadow
+   * roots and same-origin frames, then scrolls it into view and clicks it.
    *
    * @param {number} x - X coordinate (pixels from left of viewport)
    * @param {number} y - Y coordinate (pixels from top of viewport)
@@ -53,7 +371,7 @@ export class Browser {
    */
   clickCoordinates(x: number, y: number): string {
     function script(x: number, y: number): string {
-      const el = document.elementFromPoint(x, y) as HTMLElement | null;
+      const el = window.__safariDom!.fromPoint(x, y) as HTMLElement | null;
       if (!el) {
         return 'No element found at coordinates: ' + x + ', ' + y;
       }
@@ -62,7 +380,7 @@ export class Browser {
       const text = el.textContent || el.getAttribute('alt') || el.getAttribute('aria-label') || el.tagName.toLowerCase();
       return 'Clicked: ' + el.tagName.toLowerCase() + ' at (' + x + ', ' + y + ') "' + text.trim().substring(0, 80) + '"';
     }
-    return this.serialize(script, x, y);
+    return this.serializeWithDom(script, x, y);
   }
 
   /**
@@ -76,7 +394,7 @@ export class Browser {
    */
   clickDirect(selector: string): string {
     function script(selector: string): string {
-      const el = document.querySelector<HTMLElement>(selector);
+      const el = window.__safariDom!.query(selector);
       if (!el) {
         return 'No element found for selector: ' + selector;
       }
@@ -85,7 +403,7 @@ export class Browser {
       const text = el.textContent || el.getAttribute('alt') || el.tagName.toLowerCase();
       return 'Clicked: ' + el.tagName.toLowerCase() + ' "' + text.trim().substring(0, 80) + '"';
     }
-    return this.serialize(script, selector);
+    return this.serializeWithDom(script, selector);
   }
 
   /**
@@ -94,6 +412,8 @@ export class Browser {
    * Searches prioritized interactive elements first, then falls back to all
    * visible elements. Uses shortest-text-wins heuristic to avoid parent containers.
    * Checks textContent, value, aria-label, alt attribute, and child img alt text.
+   * Reports an ambiguous match instead of clicking when other visible elements
+   * of the same tag carry the same text.
    *
    * @param {string} text - Text to search for (case-insensitive partial match)
    * @returns {string} Browser script string
@@ -121,10 +441,11 @@ export class Browser {
         const style = window.getComputedStyle(el);
         return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
       }
+      const dom = window.__safariDom!;
       let best: HTMLElement | null = null;
       let bestLen = Infinity;
       const ariaSelectors = 'button, [role="button"], a, [role="link"], [role="menuitem"], [role="tab"]';
-      const ariaElements = document.querySelectorAll<HTMLElement>(ariaSelectors);
+      const ariaElements = dom.queryAll(ariaSelectors);
       for (let a = 0; a < ariaElements.length; a++) {
         const ariaEl = ariaElements[a];
         const ariaLabel = (ariaEl.getAttribute('aria-label') || '').trim().toLowerCase();
@@ -140,7 +461,7 @@ export class Browser {
           '[onclick]', 'label', 'summary'
         ];
         for (let i = 0; i < selectors.length; i++) {
-          const elements = document.querySelectorAll<HTMLElement>(selectors[i]);
+          const elements = dom.queryAll(selectors[i]);
           for (let j = 0; j < elements.length; j++) {
             const el = elements[j];
             const elText = getText(el);
@@ -152,7 +473,7 @@ export class Browser {
         }
       }
       if (!best) {
-        const all = document.querySelectorAll<HTMLElement>('*');
+        const all = dom.queryAll('*');
         for (let k = 0; k < all.length; k++) {
           const el2 = all[k];
           const elText2 = getText(el2);
@@ -165,11 +486,19 @@ export class Browser {
       if (!best) {
         return 'No element found with text: ' + searchText;
       }
+      const chosen = best;
+      const label = chosen.getAttribute('aria-label');
+      const rivals = dom.queryAll(chosen.tagName).filter((el) => {
+        return el !== chosen && !el.contains(chosen) && !chosen.contains(el) && el.getAttribute('aria-label') === label && getText(el) === getText(chosen) && isVisible(el);
+      });
+      if (rivals.length) {
+        return 'Ambiguous match for text: ' + searchText + ' (' + (rivals.length + 1) + ' ' + chosen.tagName.toLowerCase() + ' elements), scope with selector or use a snapshot ref';
+      }
       best.scrollIntoView({ block: 'center' });
       best.click();
       return 'Clicked: ' + best.tagName.toLowerCase() + ' "' + getText(best).substring(0, 80) + '"';
     }
-    return this.serialize(script, text.toLowerCase());
+    return this.serializeWithDom(script, text.toLowerCase());
   }
 
   /**
@@ -206,7 +535,7 @@ export class Browser {
         const style = window.getComputedStyle(el);
         return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
       }
-      const elements = document.querySelectorAll<HTMLElement>(selector);
+      const elements = window.__safariDom!.queryAll(selector);
       if (elements.length === 0) {
         return 'No element found for selector: ' + selector;
       }
@@ -236,7 +565,7 @@ export class Browser {
       best.click();
       return 'Clicked: ' + best.tagName.toLowerCase() + ' "' + getText(best).substring(0, 80) + '"';
     }
-    return this.serialize(script, text.toLowerCase(), selector);
+    return this.serializeWithDom(script, text.toLowerCase(), selector);
   }
 
   /**
@@ -257,6 +586,118 @@ export class Browser {
     return this.serialize(script);
   }
 
+  /**
+   * Builds a script to drag from one element or point to another
+   *
+   * Each endpoint is an element found by CSS selector or visible text, or
+   * viewport coordinates like {@link clickCoordinates}. Dispatches the
+   * pointer and mouse press, moves through the intermediate points, and
+   * release, interleaved with HTML5 `dragstart`, `dragenter`, `dragover`,
+   * `drop`, and `dragend` events sharing one `DataTransfer`. The HTML5
+   * events are skipped when a `dragstart` listener cancels the drag.
+   *
+   * @param {DragPoint} from - Drag source
+   * @param {DragPoint} to - Drop target
+   * @param {number} steps - Number of pointer moves between source and target
+   * @returns {string} Browser script string returning `{ source, target, from, to, dropped }` JSON
+   */
+  drag(from: DragPoint, to: DragPoint, steps: number): string {
+    function script(from: DragPoint, to: DragPoint, steps: number): string {
+      const dom = window.__safariDom!;
+      const locate = (point: DragPoint): { el: HTMLElement; x: number; y: number } | string => {
+        let el: HTMLElement | null = null;
+        if (point.selector) {
+          el = dom.query(point.selector);
+          if (!el) {
+            return 'No element found for selector: ' + point.selector;
+          }
+        } else if (point.text) {
+          const needle = point.text.toLowerCase();
+          const all = dom.queryAll('a, button, [draggable="true"], [role], li, td, th, label, p, span, div');
+          let bestLen = Infinity;
+          for (let i = 0; i < all.length; i++) {
+            const candidateText = (all[i].textContent || all[i].getAttribute('aria-label') || '').trim().toLowerCase();
+            if (candidateText.indexOf(needle) !== -1 && candidateText.length < bestLen) {
+              const rect = all[i].getBoundingClientRect();
+              if (rect.width > 0 && rect.height > 0) {
+                el = all[i];
+                bestLen = candidateText.length;
+              }
+            }
+          }
+          if (!el) {
+            return 'No element matched text: ' + point.text;
+          }
+        } else if (point.x !== undefined && point.y !== undefined) {
+          el = dom.fromPoint(point.x, point.y) as HTMLElement | null;
+          if (!el) {
+            return 'No element found at coordinates: ' + point.x + ', ' + point.y;
+          }
+          return { el, x: point.x, y: point.y };
+        } else {
+          return 'Missing required argument: selector, text, or x and y';
+        }
+        const rect = dom.rect(el);
+        return { el, x: Math.round(rect.x + rect.width / 2), y: Math.round(rect.y + rect.height / 2) };
+      };
+      const describe = (el: HTMLElement): string => el.tagName.toLowerCase() + (el.id ? '#' + el.id : '');
+      const source = locate(from);
+      if (typeof source === 'string') {
+        return source;
+      }
+      const target = locate(to);
+      if (typeof target === 'string') {
+        return target;
+      }
+      const transfer = new DataTransfer();
+      const pointer = (type: string, el: HTMLElement, x: number, y: number, buttons: number): void => {
+        const opts = { bubbles: true, cancelable: true, clientX: x, clientY: y, button: 0, buttons, pointerId: 1, pointerType: 'mouse', isPrimary: true };
+        el.dispatchEvent(new PointerEvent('pointer' + type, opts));
+        el.dispatchEvent(new MouseEvent('mouse' + type, opts));
+      };
+      const html5 = (type: string, el: HTMLElement, x: number, y: number): DragEvent => {
+        const event = new DragEvent(type, { bubbles: true, cancelable: true, clientX: x, clientY: y, dataTransfer: transfer });
+        el.dispatchEvent(event);
+        return event;
+      };
+      pointer('down', source.el, source.x, source.y, 1);
+      const dragging = !html5('dragstart', source.el, source.x, source.y).defaultPrevented;
+      let over = source.el;
+      if (dragging) {
+        html5('dragenter', over, source.x, source.y);
+      }
+      for (let i = 1; i <= steps; i++) {
+        const x = Math.round(source.x + (target.x - source.x) * i / steps);
+        const y = Math.round(source.y + (target.y - source.y) * i / steps);
+        const el = i === steps ? target.el : (dom.fromPoint(x, y) as HTMLElement | null) || over;
+        pointer('move', el, x, y, 1);
+        if (dragging) {
+          html5('drag', source.el, x, y);
+          if (el !== over) {
+            html5('dragleave', over, x, y);
+            html5('dragenter', el, x, y);
+            over = el;
+          }
+          html5('dragover', el, x, y);
+        }
+      }
+      let dropped = false;
+      if (dragging) {
+        dropped = html5('drop', target.el, target.x, target.y).defaultPrevented;
+        html5('dragend', source.el, target.x, target.y);
+      }
+      pointer('up', target.el, target.x, target.y, 0);
+      return JSON.stringify({
+        source: describe(source.el),
+        target: describe(target.el),
+        from: { x: source.x, y: source.y },
+        to: { x: target.x, y: target.y },
+        dropped
+      });
+    }
+    return this.serializeWithDom(script, from, to, steps);
+  }
+
   /**
    * Builds a script to inject console error and warning capture
    *
@@ -300,6 +741,193 @@ export class Browser {
     return this.serialize(script);
   }
 
+  /**
+   * Builds a script to test whether a selector matches any element
+   *
+   * @param {string} selector - CSS selector, optionally with `>>>` frame/shadow hops
+   * @returns {string} Browser script string returning "true" or "false"
+   */
+  exists(selector: string): string {
+    function script(selector: string): string {
+      return window.__safariDom!.query(selector) !== null ? 'true' : 'false';
+    }
+    return this.serializeWithDom(script, selector);
+  }
+
+  /**
+   * Builds a script to set the values of many form fields
+   *
+   * Each field identifier is resolved in turn as a CSS selector, a label or
+   * `aria-label` text, a `name` attribute, and a `placeholder`. Text inputs
+   * and textareas get the value through the native setter, selects pick the
+   * option by value or visible text, checkboxes and radios are clicked when
+   * their state must change, and contenteditable regions have their content
+   * replaced. Input and change events fire for framework reactivity. File
+   * inputs are left to `upload`, and a field that throws is reported as
+   * failed without stopping the rest.
+   *
+   * @param {{field: string, value: string | number | boolean}[]} fields - Field identifiers with their values
+   * @returns {string} Browser script string returning a JSON array of {@link FillResult}
+   */
+  fill(fields: { field: string; value: string | number | boolean }[]): string {
+    function script(fields: { field: string; value: string | number | boolean }[]): string {
+      const dom = window.__safariDom!;
+      const controls = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]):not([type="file"]), select, textarea, [contenteditable=""], [contenteditable="true"]';
+      const normalize = (s: string | null): string => (s || '').replace(/\s+/g, ' ').replace(/[\s:*]+$/, '').trim().toLowerCase();
+      const describe = (el: HTMLElement): string => {
+        const type = el.getAttribute('type');
+        const name = el.getAttribute('name');
+        return el.tagName.toLowerCase() + (type ? '[type=' + type + ']' : '') + (name ? '[name=' + name + ']' : '') + (el.id ? '#' + el.id : '');
+      };
+      const resolve = (field: string): HTMLElement[] => {
+        try {
+          const matched = dom.queryAll<HTMLElement>(field);
+          if (matched.length > 0) {
+            return matched;
+          }
+        } catch {
+          // Not a valid selector; match the identifier as label, name, or placeholder.
+        }
+        const needle = normalize(field);
+        const all = dom.queryAll<HTMLElement>(controls);
+        const labelled: HTMLElement[] = [];
+        const labels = dom.queryAll<HTMLLabelElement>('label');
+        for (let i = 0; i < labels.length; i++) {
+          if (normalize(labels[i].textContent) === needle) {
+            const control = (labels[i].control || labels[i].querySelector(controls)) as HTMLElement | null;
+            if (control && labelled.indexOf(control) === -1) {
+              labelled.push(control);
+            }
+          }
+        }
+        if (labelled.length > 0) {
+          return labelled;
+        }
+        const attributes = ['aria-label', 'name', 'placeholder'];
+        for (let a = 0; a < attributes.length; a++) {
+          const matched = all.filter((el) => normalize(el.getAttribute(attributes[a])) === needle);
+          if (matched.length > 0) {
+            return matched;
+          }
+        }
+        return [];
+      };
+      const setValue = (el: HTMLInputElement | HTMLTextAreaElement, value: string): void => {
+        const view = el.ownerDocument.defaultView || window;
+        const proto = el.tagName === 'TEXTAREA' ? view.HTMLTextAreaElement.prototype : view.HTMLInputElement.prototype;
+        const nativeSetter = Object.getOwnPropertyDescriptor(proto, 'value');
+        if (nativeSetter && nativeSetter.set) {
+          nativeSetter.set.call(el, value);
+        } else {
+          el.value = value;
+        }
+      };
+      const fire = (el: HTMLElement): void => {
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+      };
+      const truthy = (value: string | number | boolean): boolean => {
+        return value === true || value === 1 || ['true', 'on', 'yes', 'checked', '1'].indexOf(String(value).toLowerCase()) !== -1;
+      };
+      const fillOne = (field: string, value: string | number | boolean): { field: string; ok: boolean; element?: string; error?: string } => {
+        const matched = resolve(field);
+        if (matched.length === 0) {
+          return { field, ok: false, error: 'No element found for field: ' + field };
+        }
+        const el = matched[0];
+        const text = String(value);
+        const type = (el.getAttribute('type') || '').toLowerCase();
+        if (el.tagName === 'INPUT' && type === 'radio') {
+          const radios = matched.length > 1 ? matched as HTMLInputElement[] : [el as HTMLInputElement];
+          const needle = normalize(text);
+          const radio = radios.find((r) => r.value === text)
+            || radios.find((r) => r.labels && Array.from(r.labels).some((l) => normalize(l.textContent) === needle))
+            || (radios.length === 1 && truthy(value) ? radios[0] : undefined);
+          if (!radio) {
+            return { field, ok: false, element: describe(el), error: 'No radio option matched: ' + text };
+          }
+          if (!radio.checked) {
+            radio.click();
+          }
+          return { field, ok: radio.checked, element: describe(radio), error: radio.checked ? undefined : 'Radio could not be checked' };
+        }
+        if (matched.length > 1) {
+          return { field, ok: false, element: describe(el), error: 'Ambiguous match: ' + matched.length + ' elements match field: ' + field };
+        }
+        if (el.tagName === 'INPUT' && type === 'file') {
+          return { field, ok: false, element: describe(el), error: 'File input ' + describe(el) + ' cannot be filled; use the upload tool' };
+        }
+        const disabled = (el as HTMLInputElement).disabled === true || (el as HTMLInputElement).readOnly === true;
+        if (disabled) {
+          return { field, ok: false, element: describe(el), error: 'Element is disabled or read-only' };
+        }
+        el.scrollIntoView({ block: 'center' });
+        if (el.tagName === 'SELECT') {
+          const select = el as HTMLSelectElement;
+          const options = Array.from(select.options);
+          const needle = text.toLowerCase();
+          let index = options.findIndex((o) => o.value === text);
+          if (index === -1) {
+            index = options.findIndex((o) => (o.text || '').trim().toLowerCase() === needle);
+          }
+          if (index === -1) {
+            index = options.findIndex((o) => (o.text || '').toLowerCase().indexOf(needle) !== -1);
+          }
+          if (index === -1) {
+            const sample = options.map((o) => o.text + ' [' + o.value + ']').slice(0, 10).join(', ');
+            return { field, ok: false, element: describe(el), error: 'No option matched in <select>; first options: ' + sample };
+          }
+          select.selectedIndex = index;
+          fire(select);
+          return { field, ok: true, element: describe(el) };
+        }
+        if (el.tagName === 'INPUT' && type === 'checkbox') {
+          const checkbox = el as HTMLInputElement;
+          if (checkbox.checked !== truthy(value)) {
+            checkbox.click();
+          }
+          const ok = checkbox.checked === truthy(value);
+          return { field, ok, element: describe(el), error: ok ? undefined : 'Checkbox state could not be changed' };
+        }
+        if (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA') {
+          const input = el as HTMLInputElement | HTMLTextAreaElement;
+          input.focus();
+          setValue(input, text);
+          fire(input);
+          input.blur();
+          if (input.value !== text) {
+            return { field, ok: false, element: describe(el), error: 'Value rejected by ' + describe(el) + (type ? ' (expects a valid ' + type + ' value)' : '') };
+          }
+          return { field, ok: true, element: describe(el) };
+        }
+        if (el.isContentEditable) {
+          el.focus();
+          const selection = el.ownerDocument.getSelection();
+          if (selection) {
+            const range = el.ownerDocument.createRange();
+            range.selectNodeContents(el);
+            selection.removeAllRanges();
+            selection.addRange(range);
+          }
+          if (!el.ownerDocument.execCommand('insertText', false, text)) {
+            el.textContent = text;
+            el.dispatchEvent(new Event('input', { bubbles: true }));
+          }
+          return { field, ok: true, element: describe(el) };
+        }
+        return { field, ok: false, element: describe(el), error: 'Element ' + describe(el) + ' is not a fillable form control' };
+      };
+      return JSON.stringify(fields.map(({ field, value }) => {
+        try {
+          return fillOne(field, value);
+        } catch (error) {
+          return { field, ok: false, error: (error as Error).message };
+        }
+      }));
+    }
+    return this.serializeWithDom(script, fields);
+  }
+
   /**
    * Builds a script to hide page scrollbars during full-page capture
    *
@@ -368,14 +996,15 @@ export class Browser {
    */
   hover(selector?: string, text?: string): string {
     function script(selector: string, searchText: string): string {
+      const dom = window.__safariDom!;
       let el: HTMLElement | null = null;
       if (selector) {
-        el = document.querySelector<HTMLElement>(selector);
+        el = dom.query(selector);
         if (!el) {
           return 'No element found for selector: ' + selector;
         }
       } else if (searchText) {
-        const all = document.querySelectorAll<HTMLElement>('a, button, [role="button"], [role="menuitem"], [role="tab"], summary, label, span, div');
+        const all = dom.queryAll('a, button, [role="button"], [role="menuitem"], [role="tab"], summary, label, span, div');
         let best: HTMLElement | null = null;
         let bestLen = Infinity;
         for (let i = 0; i < all.length; i++) {
@@ -409,7 +1038,7 @@ export class Browser {
       const desc = el.tagName.toLowerCase() + (el.id ? '#' + el.id : '');
       return 'Hovered: ' + desc;
     }
-    return this.serialize(script, selector || '', (text || '').toLowerCase());
+    return this.serializeWithDom(script, selector || '', (text || '').toLowerCase());
   }
 
   /**
@@ -423,7 +1052,7 @@ export class Browser {
    */
   inspect(selector: string): string {
     function script(selector: string): string {
-      const el = document.querySelector(selector) as HTMLElement | null;
+      const el = window.__safariDom!.query(selector);
       if (!el) {
         return JSON.stringify({ found: false });
       }
@@ -447,10 +1076,10 @@ export class Browser {
         visible,
         disabled,
         attributes: attrs,
-        rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height }
+        rect: window.__safariDom!.rect(el)
       });
     }
-    return this.serialize(script, selector);
+    return this.serializeWithDom(script, selector);
   }
 
   /**
@@ -467,12 +1096,12 @@ export class Browser {
     function script(key: string, selector: string): string {
       let el: Element | null;
       if (selector) {
-        el = document.querySelector(selector);
+        el = window.__safariDom!.query(selector);
         if (!el) {
           return 'No element found for selector: ' + selector;
         }
       } else {
-        el = document.activeElement || document.body;
+        el = window.__safariDom!.active() || document.body;
       }
       const opts = { key: key, code: key, bubbles: true, cancelable: true };
       el.dispatchEvent(new KeyboardEvent('keydown', opts));
@@ -483,7 +1112,7 @@ export class Browser {
       }
       return 'Pressed: ' + key + ' on ' + desc;
     }
-    return this.serialize(script, key, selector || '');
+    return this.serializeWithDom(script, key, selector || '');
   }
 
   /**
@@ -498,12 +1127,13 @@ export class Browser {
    */
   links(selector?: string): string {
     function script(selector: string): string {
-      const root: ParentNode = selector ? (document.querySelector(selector) || document) : document;
-      const anchors = root.querySelectorAll('a[href]');
+      const dom = window.__safariDom!;
+      const root: ParentNode = selector ? (dom.query(selector) || document) : document;
+      const anchors = dom.queryAll<HTMLAnchorElement>('a[href]', root);
       const out: { text: string; href: string }[] = [];
       const seen = new Set<string>();
       for (let i = 0; i < anchors.length; i++) {
-        const a = anchors[i] as HTMLAnchorElement;
+        const a = anchors[i];
         const href = a.href;
         if (!href || href.startsWith('javascript:')) {
           continue;
@@ -521,7 +1151,440 @@ export class Browser {
       }
       return JSON.stringify(out);
     }
-    return this.serialize(script, selector || '');
+    return this.serializeWithDom(script, selector || '');
+  }
+
+  /**
+   * Builds a script to convert page content into Markdown
+   *
+   * Walks the DOM from the body (or a CSS selector subtree) and emits
+   * headings, paragraphs, nested ordered and unordered lists, tables,
+   * fenced code blocks, blockquotes, and inline emphasis, code, images,
+   * and links with resolved targets. Hidden elements, scripts, styles,
+   * and embedded graphics are skipped.
+   *
+   * @param {string} [selector] - Optional CSS selector to scope extraction
+   * @returns {string} Browser script string
+   */
+  markdown(selector?: string): string {
+    function script(selector: string): string {
+      const dom = window.__safariDom!;
+      const root = selector ? dom.query(selector) : document.body;
+      if (!root) {
+        return '';
+      }
+      const skipped = ['CANVAS', 'HEAD', 'NOSCRIPT', 'SCRIPT', 'STYLE', 'SVG', 'TEMPLATE'];
+      const containers = [
+        'ADDRESS', 'ARTICLE', 'ASIDE', 'BODY', 'DD', 'DETAILS', 'DIALOG', 'DIV', 'DL', 'DT', 'FIELDSET',
+        'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'FRAME', 'HEADER', 'IFRAME', 'MAIN', 'NAV', 'SECTION', 'SUMMARY'
+      ];
+      const blocks = ['BLOCKQUOTE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'OL', 'P', 'PRE', 'TABLE', 'UL'];
+      function isBlock(el: Element): boolean {
+        const tag = el.tagName.toUpperCase();
+        return containers.indexOf(tag) !== -1 || blocks.indexOf(tag) !== -1 || tag.indexOf('-') !== -1 || el.shadowRoot !== null;
+      }
+      function isHidden(el: Element): boolean {
+        if (skipped.indexOf(el.tagName.toUpperCase()) !== -1) {
+          return true;
+        }
+        const style = window.getComputedStyle(el);
+        return style.display === 'none' || style.visibility === 'hidden';
+      }
+      function wrap(marker: string, text: string): string {
+        const trimmed = text.trim();
+        return trimmed ? marker + trimmed + marker : '';
+      }
+      function inline(node: Node): string {
+        if (node.nodeType === Node.TEXT_NODE) {
+          return (node.textContent || '').replace(/\s+/g, ' ');
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+          return '';
+        }
+        const el = node as HTMLElement;
+        if (isHidden(el)) {
+          return '';
+        }
+        const tag = el.tagName.toUpperCase();
+        const inner = (): string => dom.children(el).map(inline).join('');
+        switch (tag) {
+          case 'A': {
+            const text = inner().trim();
+            const href = (el as HTMLAnchorElement).href;
+            if (!text || !href || href.startsWith('javascript:')) {
+              return text;
+            }
+            return '[' + text + '](' + href + ')';
+          }
+          case 'B':
+          case 'STRONG':
+            return wrap('**', inner());
+          case 'BR':
+            return '\n';
+          case 'CODE':
+          case 'KBD':
+          case 'SAMP':
+            return wrap('`', el.textContent || '');
+          case 'DEL':
+          case 'S':
+            return wrap('~~', inner());
+          case 'EM':
+          case 'I':
+            return wrap('_', inner());
+          case 'IMG': {
+            const alt = (el.getAttribute('alt') || '').trim();
+            return alt ? '![' + alt + '](' + (el as HTMLImageElement).src + ')' : '';
+          }
+          default:
+            return inner();
+        }
+      }
+      function paragraph(text: string): string {
+        return text.split('\n').map((line) => line.trim()).filter((line) => line).join('  \n');
+      }
+      function list(el: Element, depth: number): string {
+        const ordered = el.tagName.toUpperCase() === 'OL';
+        const start = ordered ? parseInt(el.getAttribute('start') || '1', 10) || 1 : 1;
+        const indent = '  '.repeat(depth);
+        const lines: string[] = [];
+        let position = 0;
+        for (let i = 0; i < el.children.length; i++) {
+          const item = el.children[i];
+          if (item.tagName.toUpperCase() !== 'LI' || isHidden(item)) {
+            continue;
+          }
+          const marker = ordered ? (start + position) + '. ' : '- ';
+          position++;
+          let text = '';
+          const nested: string[] = [];
+          const itemChildren = dom.children(item);
+          for (let j = 0; j < itemChildren.length; j++) {
+            const child = itemChildren[j];
+            const childTag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toUpperCase() : '';
+            if (childTag === 'UL' || childTag === 'OL') {
+              if (!isHidden(child as Element)) {
+                nested.push(list(child as Element, depth + 1));
+              }
+            } else {
+              text += ' ' + inline(child);
+            }
+          }
+          lines.push(indent + marker + text.replace(/\s+/g, ' ').trim());
+          for (let k = 0; k < nested.length; k++) {
+            if (nested[k]) {
+              lines.push(nested[k]);
+            }
+          }
+        }
+        return lines.join('\n');
+      }
+      function table(el: HTMLTableElement): string {
+        const rows: string[][] = [];
+        for (let i = 0; i < el.rows.length; i++) {
+          const cells = el.rows[i].cells;
+          const row: string[] = [];
+          for (let j = 0; j < cells.length; j++) {
+            row.push(inline(cells[j]).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'));
+          }
+          if (row.length) {
+            rows.push(row);
+          }
+        }
+        if (!rows.length) {
+          return '';
+        }
+        const width = Math.max(...rows.map((row) => row.length));
+        const line = (row: string[]): string => {
+          const padded = row.concat(new Array(width - row.length).fill(''));
+          return '| ' + padded.join(' | ') + ' |';
+        };
+        const out = [line(rows[0]), '|' + new Array(width).fill(' --- ').join('|') + '|'];
+        for (let i = 1; i < rows.length; i++) {
+          out.push(line(rows[i]));
+        }
+        return out.join('\n');
+      }
+      function render(el: Element): string[] {
+        const out: string[] = [];
+        let buffer = '';
+        const flush = (): void => {
+          const text = paragraph(buffer);
+          if (text) {
+            out.push(text);
+          }
+          buffer = '';
+        };
+        const children = dom.children(el);
+        for (let i = 0; i < children.length; i++) {
+          const child = children[i];
+          if (child.nodeType !== Node.ELEMENT_NODE || !isBlock(child as Element)) {
+            buffer += inline(child);
+            continue;
+          }
+          flush();
+          const block = child as HTMLElement;
+          if (isHidden(block)) {
+            continue;
+          }
+          const tag = block.tagName.toUpperCase();
+          if (/^H[1-6]$/.test(tag)) {
+            const text = inline(block).replace(/\s+/g, ' ').trim();
+            if (text) {
+              out.push('#'.repeat(parseInt(tag.substring(1), 10)) + ' ' + text);
+            }
+          } else if (tag === 'P') {
+            const text = paragraph(inline(block));
+            if (text) {
+              out.push(text);
+            }
+          } else if (tag === 'PRE') {
+            const code = (block.textContent || '').replace(/\n+$/, '');
+            const lang = (block.querySelector('code[class*="language-"]')?.className.match(/language-(\S+)/) || [])[1] || '';
+            out.push('```' + lang + '\n' + code + '\n```');
+          } else if (tag === 'UL' || tag === 'OL') {
+            const text = list(block, 0);
+            if (text) {
+              out.push(text);
+            }
+          } else if (tag === 'TABLE') {
+            const text = table(block as HTMLTableElement);
+            if (text) {
+              out.push(text);
+            }
+          } else if (tag === 'BLOCKQUOTE') {
+            const text = render(block).join('\n\n');
+            if (text) {
+              out.push(text.split('\n').map((line) => line ? '> ' + line : '>').join('\n'));
+            }
+          } else if (tag === 'HR') {
+            out.push('---');
+          } else {
+            out.push(...render(block));
+          }
+        }
+        flush();
+        return out;
+      }
+      return render(root).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+    }
+    return this.serializeWithDom(script, selector || '');
+  }
+
+  /**
+   * Builds a script to mark the page as the working tab
+   *
+   * Stores the marker in `window.name`, which survives reloads and
+   * same-site navigations in the tab. A name set by the page itself is
+   * left alone, so only an empty name is replaced; {@link unmarkTab}
+   * restores it.
+   *
+   * @param {string} marker - Working tab marker
+   * @returns {string} Browser script string returning "true" when marked
+   */
+  markTab(marker: string): string {
+    function script(marker: string): string {
+      if (window.name !== '' && window.name.indexOf('safari-mcp:') !== 0) {
+        return 'false';
+      }
+      window.name = marker;
+      return 'true';
+    }
+    return this.serialize(script, marker);
+  }
+
+  /**
+   * Builds a script to inject network activity capture
+   *
+   * Wraps fetch, XMLHttpRequest, WebSocket, and navigator.sendBeacon to
+   * record method, URL, status, timing, and request/response bodies
+   * truncated to `bodyLimit` characters. Tracks in-flight fetch/XHR
+   * requests and the time of the last activity. Keeps the most recent
+   * 500 entries. Idempotent - safe to call multiple times on the same page.
+   *
+   * @param {number} [bodyLimit=2000] - Maximum characters kept per body
+   * @returns {string} Browser script string
+   */
+  networkCapture(bodyLimit: number = 2000): string {
+    function script(bodyLimit: number): void {
+      if (window.__safariNetwork) {
+        return;
+      }
+      const log: SafariNetwork = { entries: [], pending: 0, lastActivity: Date.now(), nextId: 1 };
+      window.__safariNetwork = log;
+      function truncate(body: unknown): string | undefined {
+        if (body === undefined || body === null) {
+          return undefined;
+        }
+        let text: string;
+        if (typeof body === 'string') {
+          text = body;
+        } else if (body instanceof URLSearchParams) {
+          text = body.toString();
+        } else if (body instanceof FormData) {
+          text = '[FormData]';
+        } else if (body instanceof Blob) {
+          text = '[Blob ' + body.size + ' bytes]';
+        } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+          text = '[Binary ' + (body as ArrayBuffer).byteLength + ' bytes]';
+        } else {
+          text = String(body);
+        }
+        return text.length > bodyLimit ? text.substring(0, bodyLimit) + '...' : text;
+      }
+      function isText(contentType: string | null): boolean {
+        return !!contentType && /json|text|xml|javascript|urlencoded/i.test(contentType);
+      }
+      function begin(type: NetworkEntry['type'], method: string, url: string, body: unknown, tracked: boolean): NetworkEntry {
+        const entry: NetworkEntry = {
+          id: log.nextId++,
+          type,
+          method: method.toUpperCase(),
+          url: new URL(url, location.href).href,
+          startTime: Date.now()
+        };
+        const requestBody = truncate(body);
+        if (requestBody !== undefined) {
+          entry.requestBody = requestBody;
+        }
+        log.entries.push(entry);
+        if (log.entries.length > 500) {
+          log.entries.shift();
+        }
+        if (tracked) {
+          log.pending++;
+        }
+        log.lastActivity = Date.now();
+        return entry;
+      }
+      function end(entry: NetworkEntry, tracked: boolean): void {
+        entry.duration = Date.now() - entry.startTime;
+        if (tracked) {
+          log.pending = Math.max(0, log.pending - 1);
+        }
+        log.lastActivity = Date.now();
+      }
+      const origFetch = window.fetch;
+      window.fetch = function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        const method = (init && init.method) || (input instanceof Request ? input.method : 'GET');
+        const entry = begin('fetch', method, url, init ? init.body : undefined, true);
+        return origFetch.call(window, input, init).then((response) => {
+          entry.status = response.status;
+          end(entry, true);
+          if (isText(response.headers.get('content-type'))) {
+            response.clone().text().then((body) => {
+              entry.responseBody = truncate(body);
+            }).catch(() => undefined);
+          }
+          return response;
+        }, (error: unknown) => {
+          entry.error = error instanceof Error ? error.message : String(error);
+          end(entry, true);
+          throw error;
+        });
+      };
+      const origOpen = XMLHttpRequest.prototype.open;
+      const origSend = XMLHttpRequest.prototype.send;
+      const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+      XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]): void {
+        requests.set(this, { method, url: String(url) });
+        return (origOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+      } as typeof XMLHttpRequest.prototype.open;
+      XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null): void {
+        const info = requests.get(this) || { method: 'GET', url: '' };
+        const entry = begin('xhr', info.method, info.url, body, true);
+        this.addEventListener('loadend', () => {
+          entry.status = this.status;
+          if (this.status === 0) {
+            entry.error = 'Request failed or was aborted';
+          }
+          if ((this.responseType === '' || this.responseType === 'text') && isText(this.getResponseHeader('content-type'))) {
+            entry.responseBody = truncate(this.responseText);
+          }
+          end(entry, true);
+        });
+        return origSend.call(this, body);
+      };
+      const OrigWebSocket = window.WebSocket;
+      const PatchedWebSocket = function (url: string | URL, protocols?: string | string[]): WebSocket {
+        const socket = new OrigWebSocket(url, protocols);
+        const entry = begin('websocket', 'GET', String(url), undefined, false);
+        entry.messagesSent = 0;
+        entry.messagesReceived = 0;
+        socket.addEventListener('open', () => {
+          entry.status = 101;
+        });
+        socket.addEventListener('message', () => {
+          entry.messagesReceived = (entry.messagesReceived || 0) + 1;
+        });
+        socket.addEventListener('error', () => {
+          entry.error = 'WebSocket error';
+        });
+        socket.addEventListener('close', () => {
+          end(entry, false);
+        });
+        const origSocketSend = socket.send;
+        socket.send = function (data: Parameters<WebSocket['send']>[0]): void {
+          entry.messagesSent = (entry.messagesSent || 0) + 1;
+          origSocketSend.call(socket, data);
+        };
+        return socket;
+      } as unknown as typeof WebSocket;
+      PatchedWebSocket.prototype = OrigWebSocket.prototype;
+      Object.assign(PatchedWebSocket, { CONNECTING: 0, OPEN: 1, CLOSING: 2, CLOSED: 3 });
+      window.WebSocket = PatchedWebSocket;
+      if (navigator.sendBeacon) {
+        const origBeacon = navigator.sendBeacon;
+        navigator.sendBeacon = function (url: string | URL, data?: BodyInit | null): boolean {
+          const entry = begin('beacon', 'POST', String(url), data, false);
+          const queued = origBeacon.call(navigator, url, data);
+          if (!queued) {
+            entry.error = 'Beacon was not queued';
+          }
+          end(entry, false);
+          return queued;
+        };
+      }
+    }
+    return this.serialize(script, bodyLimit);
+  }
+
+  /**
+   * Builds a script to clear the captured network log
+   *
+   * Drops recorded entries while keeping the in-flight counter intact.
+   *
+   * @returns {string} Browser script string
+   */
+  networkClear(): string {
+    function script(): string {
+      const log = window.__safariNetwork;
+      const cleared = log ? log.entries.length : 0;
+      if (log) {
+        log.entries = [];
+      }
+      return String(cleared);
+    }
+    return this.serialize(script);
+  }
+
+  /**
+   * Builds a script to retrieve the captured network log
+   *
+   * Returns the entries populated by networkCapture and the in-flight
+   * request count, with an empty fallback if capture was not injected.
+   *
+   * @returns {string} Browser script string
+   */
+  networkLog(): string {
+    function script(): string {
+      const log = window.__safariNetwork;
+      return JSON.stringify({
+        entries: log ? log.entries : [],
+        pending: log ? log.pending : 0
+      });
+    }
+    return this.serialize(script);
   }
 
   /**
@@ -543,6 +1606,53 @@ export class Browser {
     return this.serialize(script);
   }
 
+  /**
+   * Builds a script to capture the page state used for change detection
+   *
+   * Returns title, URL, and dimensions alongside the focused element (deep
+   * through shadow roots and frames), the number of open visible dialogs,
+   * the element count, and a fingerprint hashing the rendered text with
+   * the element count, in a single evaluation.
+   *
+   * @returns {string} Browser script string returning JSON
+   */
+  pageState(): string {
+    function script(): string {
+      const dom = window.__safariDom!;
+      const active = dom.active();
+      let focus = '';
+      if (active && active !== active.ownerDocument.body && active !== active.ownerDocument.documentElement) {
+        focus = active.tagName.toLowerCase() + (active.id ? '#' + active.id : '');
+        const label = active.getAttribute('aria-label') || active.getAttribute('name') || active.getAttribute('placeholder') || (active.textContent || '').trim().substring(0, 40);
+        if (label) {
+          focus += ' "' + label + '"';
+        }
+      }
+      const dialogs = dom.queryAll('dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]').filter((el) => {
+        const rect = el.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0;
+      }).length;
+      const elements = document.getElementsByTagName('*').length;
+      const text = document.body ? document.body.innerText || '' : '';
+      let hash = 5381;
+      for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+      }
+      return JSON.stringify({
+        title: document.title,
+        url: location.href,
+        innerHeight: window.innerHeight,
+        scrollHeight: document.body.scrollHeight,
+        scrollOffset: window.scrollY,
+        focus,
+        dialogs,
+        elements,
+        fingerprint: (hash >>> 0).toString(36) + '-' + elements.toString(36)
+      });
+    }
+    return this.serializeWithDom(script);
+  }
+
   /**
    * Builds a script to remove a previously injected scrollbar-hiding style
    *
@@ -598,13 +1708,13 @@ export class Browser {
    */
   scrollElementIntoView(selector: string): string {
     function script(selector: string): string {
-      const el = document.querySelector(selector) as HTMLElement | null;
+      const el = window.__safariDom!.query(selector);
       if (el) {
         el.scrollIntoView({ block: 'center', inline: 'nearest' });
       }
       return 'scrolled';
     }
-    return this.serialize(script, selector);
+    return this.serializeWithDom(script, selector);
   }
 
   /**
@@ -642,7 +1752,7 @@ export class Browser {
    */
   selectOption(selector: string, value?: string, text?: string): string {
     function script(selector: string, value: string, text: string): string {
-      const el = document.querySelector(selector) as HTMLSelectElement | null;
+      const el = window.__safariDom!.query<HTMLSelectElement>(selector);
       if (!el) {
         return 'No element found for selector: ' + selector;
       }
@@ -667,16 +1777,473 @@ export class Browser {
       const chosen = options[matchIndex];
       return 'Selected: ' + (chosen.text || '(empty)') + ' [value=' + chosen.value + ']';
     }
-    return this.serialize(script, selector, value || '', text || '');
+    return this.serializeWithDom(script, selector, value || '', text || '');
+  }
+
+  /**
+   * Builds a script to capture an accessibility snapshot of the page
+   *
+   * Walks the DOM from the body (or a CSS selector subtree) and emits a
+   * compact indented tree of landmark, heading, and interactive elements
+   * with their role, accessible name, and state. Each emitted element is
+   * tagged with a `data-safari-ref` attribute holding a short ref ID that
+   * act tools accept as a target. Existing refs are preserved so repeated
+   * snapshots of the same page keep stable IDs.
+   *
+   * @param {string} [selector] - Optional CSS selector to scope the snapshot
+   * @returns {string} Browser script string
+   */
+  snapshot(selector?: string): string {
+    function script(selector: string): string {
+      const dom = window.__safariDom!;
+      const root = selector ? dom.query(selector) : document.body;
+      if (!root) {
+        return '';
+      }
+      const interactive = [
+        'button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+        'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem'
+      ];
+      const landmarks = [
+        'alertdialog', 'banner', 'complementary', 'contentinfo', 'dialog', 'form', 'heading',
+        'main', 'navigation', 'region', 'search'
+      ];
+      const inputRoles: Record<string, string> = {
+        button: 'button', checkbox: 'checkbox', email: 'textbox', image: 'button', number: 'spinbutton',
+        password: 'textbox', radio: 'radio', range: 'slider', reset: 'button', search: 'searchbox',
+        submit: 'button', tel: 'textbox', text: 'textbox', url: 'textbox'
+      };
+      function clean(text: string): string {
+        return text.replace(/\s+/g, ' ').trim();
+      }
+      function isHidden(el: Element): boolean {
+        if (el.getAttribute('aria-hidden') === 'true' || (el as HTMLElement).hidden) {
+          return true;
+        }
+        const style = window.getComputedStyle(el);
+        return style.display === 'none' || style.visibility === 'hidden';
+      }
+      function roleOf(el: Element): string {
+        const explicit = (el.getAttribute('role') || '').trim().split(/\s+/)[0];
+        if (explicit) {
+          return explicit;
+        }
+        const tag = el.tagName.toLowerCase();
+        switch (tag) {
+          case 'a':
+          case 'area':
+            return el.hasAttribute('href') ? 'link' : '';
+          case 'aside':
+            return 'complementary';
+          case 'button':
+          case 'summary':
+            return 'button';
+          case 'dialog':
+            return 'dialog';
+          case 'footer':
+            return el.closest('article, aside, main, nav, section') ? '' : 'contentinfo';
+          case 'form':
+            return 'form';
+          case 'h1':
+          case 'h2':
+          case 'h3':
+          case 'h4':
+          case 'h5':
+          case 'h6':
+            return 'heading';
+          case 'header':
+            return el.closest('article, aside, main, nav, section') ? '' : 'banner';
+          case 'input': {
+            const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+            if (type === 'hidden') {
+              return '';
+            }
+            if ((type === 'text' || type === 'search' || type === 'email' || type === 'tel' || type === 'url') && el.hasAttribute('list')) {
+              return 'combobox';
+            }
+            return inputRoles[type] || 'textbox';
+          }
+          case 'main':
+            return 'main';
+          case 'nav':
+            return 'navigation';
+          case 'option':
+            return 'option';
+          case 'search':
+            return 'search';
+          case 'section':
+            return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'region' : '';
+          case 'select':
+            return (el as HTMLSelectElement).multiple || (el as HTMLSelectElement).size > 1 ? 'listbox' : 'combobox';
+          case 'textarea':
+            return 'textbox';
+          default:
+            return (el as HTMLElement).isContentEditable && el.getAttribute('contenteditable') !== null ? 'textbox' : '';
+        }
+      }
+      function nameOf(el: Element, role: string): string {
+        const labelledBy = el.getAttribute('aria-labelledby');
+        if (labelledBy) {
+          const text = labelledBy.split(/\s+/).map((id) => {
+            const ref = document.getElementById(id);
+            return ref ? ref.textContent || '' : '';
+          }).join(' ');
+          if (clean(text)) {
+            return clean(text);
+          }
+        }
+        const label = el.getAttribute('aria-label');
+        if (label && clean(label)) {
+          return clean(label);
+        }
+        const labels = (el as HTMLInputElement).labels;
+        if (labels && labels.length) {
+          const text = Array.from(labels).map((l) => l.textContent || '').join(' ');
+          if (clean(text)) {
+            return clean(text);
+          }
+        }
+        const tag = el.tagName.toLowerCase();
+        if (tag === 'input' || tag === 'textarea' || tag === 'select') {
+          const input = el as HTMLInputElement;
+          if ((input.type === 'submit' || input.type === 'button' || input.type === 'reset') && input.value) {
+            return clean(input.value);
+          }
+          return clean(el.getAttribute('placeholder') || el.getAttribute('title') || input.name || '');
+        }
+        if (landmarks.indexOf(role) !== -1 && role !== 'heading') {
+          return clean(el.getAttribute('title') || '');
+        }
+        let text = clean(el.textContent || '');
+        if (!text) {
+          const img = el.querySelector('img[alt]');
+          text = clean((img && img.getAttribute('alt')) || el.getAttribute('title') || '');
+        }
+        return text.length > 80 ? text.substring(0, 77) + '...' : text;
+      }
+      function statesOf(el: Element, role: string): string[] {
+        const states: string[] = [];
+        const input = el as HTMLInputElement;
+        if (role === 'heading') {
+          const level = el.getAttribute('aria-level') || el.tagName.substring(1);
+          states.push('level=' + level);
+        }
+        if (role === 'checkbox' || role === 'radio' || role === 'switch' || role === 'menuitemcheckbox' || role === 'menuitemradio') {
+          const aria = el.getAttribute('aria-checked');
+          const checked = aria !== null ? aria : (input.checked ? 'true' : 'false');
+          states.push(checked === 'mixed' ? 'checked=mixed' : checked === 'true' ? 'checked' : 'unchecked');
+        }
+        if (input.disabled === true || el.getAttribute('aria-disabled') === 'true') {
+          states.push('disabled');
+        }
+        const expanded = el.getAttribute('aria-expanded');
+        if (expanded !== null) {
+          states.push('expanded=' + expanded);
+        } else if (el.tagName === 'SUMMARY' && el.parentElement && el.parentElement.tagName === 'DETAILS') {
+          states.push('expanded=' + String((el.parentElement as HTMLDetailsElement).open));
+        }
+        if (el.getAttribute('aria-selected') === 'true' || (el.tagName === 'OPTION' && (el as HTMLOptionElement).selected)) {
+          states.push('selected');
+        }
+        const pressed = el.getAttribute('aria-pressed');
+        if (pressed !== null) {
+          states.push('pressed=' + pressed);
+        }
+        if (input.required === true || el.getAttribute('aria-required') === 'true') {
+          states.push('required');
+        }
+        if (role === 'textbox' || role === 'searchbox' || role === 'combobox' || role === 'spinbutton' || role === 'slider') {
+          let value = '';
+          if (el.tagName === 'SELECT') {
+            const selected = (el as HTMLSelectElement).selectedOptions[0];
+            value = selected ? selected.text : '';
+          } else if (typeof input.value === 'string') {
+            value = input.type === 'password' ? (input.value ? '********' : '') : input.value;
+          } else {
+            value = el.textContent || '';
+          }
+          value = clean(value);
+          if (value) {
+            states.push('value="' + (value.length > 40 ? value.substring(0, 37) + '...' : value).replace(/"/g, '\\"') + '"');
+          }
+        }
+        if (el === dom.active()) {
+          states.push('focused');
+        }
+        return states;
+      }
+      function refOf(el: Element): string {
+        const existing = el.getAttribute('data-safari-ref');
+        if (existing) {
+          return existing;
+        }
+        window.__safariRefCounter = (window.__safariRefCounter || 0) + 1;
+        const ref = 'e' + window.__safariRefCounter;
+        el.setAttribute('data-safari-ref', ref);
+        return ref;
+      }
+      const lines: string[] = [];
+      function walk(el: Element, depth: number): void {
+        const children = dom.children(el).filter((node) => node.nodeType === Node.ELEMENT_NODE) as Element[];
+        for (let i = 0; i < children.length; i++) {
+          const child = children[i];
+          if (isHidden(child)) {
+            continue;
+          }
+          const role = roleOf(child);
+          if (interactive.indexOf(role) === -1 && landmarks.indexOf(role) === -1) {
+            walk(child, depth);
+            continue;
+          }
+          const name = nameOf(child, role);
+          let line = '  '.repeat(depth) + '- ' + role;
+          if (name) {
+            line += ' "' + name.replace(/"/g, '\\"') + '"';
+          }
+          line += ' [ref=' + refOf(child) + ']';
+          const states = statesOf(child, role);
+          for (let j = 0; j < states.length; j++) {
+            line += ' [' + states[j] + ']';
+          }
+          lines.push(line);
+          if (role === 'link' || role === 'button' || role === 'option' || role === 'heading') {
+            continue;
+          }
+          walk(child, depth + 1);
+        }
+      }
+      walk(root, 0);
+      return lines.join('\n');
+    }
+    return this.serializeWithDom(script, selector || '');
+  }
+
+  /**
+   * Builds a script to extract the rendered text of the page
+   *
+   * Reads `innerText` of the body (or a CSS selector subtree) and appends
+   * the text of same-origin frames and of open shadow roots whose host
+   * renders no light-DOM text of its own.
+   *
+   * @param {string} [selector] - Optional CSS selector to scope extraction
+   * @returns {string} Browser script string
+   */
+  text(selector?: string): string {
+    function script(selector: string): string {
+      const dom = window.__safariDom!;
+      const root = selector ? dom.query(selector) : document.body;
+      if (!root) {
+        return '';
+      }
+      const parts = [root.innerText || ''];
+      const all = root.querySelectorAll('*');
+      function collect(el: Element): void {
+        if (el.shadowRoot && !((el as HTMLElement).innerText || '').trim()) {
+          const children = el.shadowRoot.children;
+          for (let i = 0; i < children.length; i++) {
+            const text = ((children[i] as HTMLElement).innerText || '').trim();
+            if (text) {
+              parts.push(text);
+            }
+          }
+        }
+        if (el.tagName === 'IFRAME' || el.tagName === 'FRAME') {
+          try {
+            const doc = (el as HTMLIFrameElement).contentDocument;
+            if (doc && doc.body) {
+              parts.push(doc.body.innerText || '');
+            }
+          } catch {
+            // Cross-origin frame - content is not reachable from this page.
+          }
+        }
+      }
+      for (let i = 0; i < all.length; i++) {
+        collect(all[i]);
+      }
+      return parts.filter((part) => part.trim()).join('\n\n');
+    }
+    return this.serializeWithDom(script, selector || '');
+  }
+
+  /**
+   * Builds a script to type text one keystroke at a time
+   *
+   * Resolves the target like {@link typeText}, then emits keydown, keypress,
+   * beforeinput, input, and keyup for each character, inserting it at the
+   * caret unless a keydown or beforeinput listener cancels it. Contenteditable
+   * regions insert through `insertText`. A newline presses Enter, which breaks
+   * the line in textareas and contenteditable regions. Replacing the value
+   * first deletes the existing content with a `deleteContent` input event.
+   *
+   * @param {string} text - Text to type
+   * @param {string} [selector] - CSS selector for the target input
+   * @param {boolean} [append] - Whether to keep the existing value
+   * @param {boolean} [submit] - Whether to press Enter and submit the form after typing
+   * @returns {string} Browser script string
+   */
+  typeKeys(text: string, selector?: string, append?: boolean, submit?: boolean): string {
+    function script(text: string, selector: string, append: boolean, submit: boolean): string {
+      const dom = window.__safariDom!;
+      let el: HTMLInputElement | HTMLTextAreaElement | null = null;
+      if (selector) {
+        el = dom.query<HTMLInputElement | HTMLTextAreaElement>(selector);
+        if (!el) {
+          return 'No element found for selector: ' + selector;
+        }
+      } else {
+        const active = dom.active() as HTMLElement | null;
+        if (active && active !== document.body && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable)) {
+          el = active as HTMLInputElement | HTMLTextAreaElement;
+        }
+        if (!el) {
+          const inputs = dom.queryAll<HTMLInputElement | HTMLTextAreaElement>(
+            'input:not([type="hidden"]):not([type="submit"]):not([type="button"])'
+            + ':not([type="checkbox"]):not([type="radio"]), textarea, [contenteditable=""], [contenteditable="true"]'
+          );
+          for (let i = 0; i < inputs.length; i++) {
+            if (inputs[i].offsetParent !== null) {
+              el = inputs[i];
+              break;
+            }
+          }
+        }
+      }
+      if (!el) {
+        return 'No input element found';
+      }
+      const target = el;
+      const editable = target.tagName !== 'INPUT' && target.tagName !== 'TEXTAREA';
+      if (editable && !target.isContentEditable) {
+        return 'No input element at ' + selector + ': <' + target.tagName.toLowerCase() + '> is not a text input, textarea, or contenteditable region';
+      }
+      const doc = target.ownerDocument;
+      const view = doc.defaultView || window;
+      const proto = target.tagName === 'TEXTAREA' ? view.HTMLTextAreaElement.prototype : view.HTMLInputElement.prototype;
+      const nativeSetter = Object.getOwnPropertyDescriptor(proto, 'value');
+      const setValue = (value: string): void => {
+        if (nativeSetter && nativeSetter.set) {
+          nativeSetter.set.call(target, value);
+        } else {
+          target.value = value;
+        }
+      };
+      const caret = (): [number, number] => {
+        try {
+          if (target.selectionStart !== null && target.selectionEnd !== null) {
+            return [target.selectionStart, target.selectionEnd];
+          }
+        } catch {
+          // Input types such as email and number have no selection API; type at the end.
+        }
+        return [target.value.length, target.value.length];
+      };
+      const moveCaret = (position: number): void => {
+        try {
+          target.setSelectionRange(position, position);
+        } catch {
+          // No selection API on this input type.
+        }
+      };
+      target.focus();
+      target.scrollIntoView({ block: 'center' });
+      if (editable) {
+        const selection = doc.getSelection();
+        if (selection) {
+          const clear = !append && !!target.textContent;
+          const range = doc.createRange();
+          range.selectNodeContents(target);
+          if (!clear) {
+            range.collapse(false);
+          }
+          selection.removeAllRanges();
+          selection.addRange(range);
+          if (clear) {
+            if (!doc.execCommand('delete')) {
+              target.textContent = '';
+              target.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContent' }));
+            }
+            const end = doc.createRange();
+            end.selectNodeContents(target);
+            end.collapse(false);
+            selection.removeAllRanges();
+            selection.addRange(end);
+          }
+        }
+      } else if (!append && target.value) {
+        setValue('');
+        target.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContent' }));
+      } else {
+        moveCaret(target.value.length);
+      }
+      const keyInfo = (ch: string): { key: string; code: string; keyCode: number } => {
+        if (ch === '\n') {
+          return { key: 'Enter', code: 'Enter', keyCode: 13 };
+        }
+        if (/^[a-z]$/i.test(ch)) {
+          return { key: ch, code: 'Key' + ch.toUpperCase(), keyCode: ch.toUpperCase().charCodeAt(0) };
+        }
+        if (/^[0-9]$/.test(ch)) {
+          return { key: ch, code: 'Digit' + ch, keyCode: ch.charCodeAt(0) };
+        }
+        return { key: ch, code: ch === ' ' ? 'Space' : '', keyCode: ch.charCodeAt(0) };
+      };
+      let typed = 0;
+      for (const ch of Array.from(text)) {
+        const info = keyInfo(ch);
+        const keyOpts = { key: info.key, code: info.code, keyCode: info.keyCode, which: info.keyCode, shiftKey: ch !== ch.toLowerCase(), bubbles: true, cancelable: true };
+        const down = target.dispatchEvent(new KeyboardEvent('keydown', keyOpts));
+        if (down) {
+          target.dispatchEvent(new KeyboardEvent('keypress', { ...keyOpts, charCode: info.keyCode }));
+          const newline = ch === '\n';
+          const inputType = newline ? (editable ? 'insertParagraph' : 'insertLineBreak') : 'insertText';
+          const insertable = !newline || editable || target.tagName === 'TEXTAREA';
+          if (insertable && target.dispatchEvent(new InputEvent('beforeinput', { bubbles: true, cancelable: true, inputType, data: newline ? null : ch }))) {
+            if (editable) {
+              if (!doc.execCommand(newline ? 'insertParagraph' : 'insertText', false, newline ? undefined : ch)) {
+                target.textContent = (target.textContent || '') + ch;
+                target.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data: newline ? null : ch }));
+              }
+            } else {
+              const [start, end] = caret();
+              const value = target.value;
+              setValue(value.substring(0, start) + ch + value.substring(end));
+              moveCaret(start + ch.length);
+              target.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data: newline ? null : ch }));
+            }
+            typed++;
+          }
+        }
+        target.dispatchEvent(new KeyboardEvent('keyup', keyOpts));
+      }
+      if (!editable) {
+        target.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+      const desc = target.tagName.toLowerCase() + (target.getAttribute('name') ? '[name=' + target.getAttribute('name') + ']' : '') + (target.id ? '#' + target.id : '');
+      if (submit) {
+        const enterOpts = { key: 'Enter', code: 'Enter', keyCode: 13, which: 13, bubbles: true, cancelable: true };
+        const enter = target.dispatchEvent(new KeyboardEvent('keydown', enterOpts));
+        target.dispatchEvent(new KeyboardEvent('keypress', enterOpts));
+        target.dispatchEvent(new KeyboardEvent('keyup', enterOpts));
+        if (enter && !editable && target.form) {
+          target.form.requestSubmit();
+        }
+        return 'Typed ' + typed + ' keys and submitted in: ' + desc;
+      }
+      return 'Typed ' + typed + ' keys in: ' + desc;
+    }
+    return this.serializeWithDom(script, text, selector || '', append || false, submit || false);
   }
 
   /**
    * Builds a script to type text into an input element
    *
    * Resolves target element through three tiers: CSS selector, focused element,
-   * or first visible text input/textarea. Uses native property descriptor setter
-   * for React/Vue/Angular compatibility. Dispatches input + change events for
-   * framework reactivity. Optional submit mode with full Enter key sequence.
+   * or first visible text input, textarea, or contenteditable region. Uses native
+   * property descriptor setter for React/Vue/Angular compatibility. Dispatches
+   * input + change events for framework reactivity. Contenteditable regions get
+   * the text through `insertText` so rich-text editors see an edit. Optional
+   * submit mode with full Enter key sequence.
    *
    * @param {string} text - Text to type into the input
    * @param {string} [selector] - CSS selector for target input
@@ -686,21 +2253,22 @@ export class Browser {
    */
   typeText(text: string, selector?: string, append?: boolean, submit?: boolean): string {
     function script(text: string, selector: string, append: boolean, submit: boolean): string {
+      const dom = window.__safariDom!;
       let el: HTMLInputElement | HTMLTextAreaElement | null = null;
       if (selector) {
-        el = document.querySelector<HTMLInputElement | HTMLTextAreaElement>(selector);
+        el = dom.query<HTMLInputElement | HTMLTextAreaElement>(selector);
         if (!el) {
           return 'No element found for selector: ' + selector;
         }
       } else {
-        const active = document.activeElement as HTMLElement | null;
+        const active = dom.active() as HTMLElement | null;
         if (active && active !== document.body && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable)) {
           el = active as HTMLInputElement | HTMLTextAreaElement;
         }
         if (!el) {
-          const inputs = document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(
+          const inputs = dom.queryAll<HTMLInputElement | HTMLTextAreaElement>(
             'input:not([type="hidden"]):not([type="submit"]):not([type="button"])'
-            + ':not([type="checkbox"]):not([type="radio"]), textarea'
+            + ':not([type="checkbox"]):not([type="radio"]), textarea, [contenteditable=""], [contenteditable="true"]'
           );
           for (let i = 0; i < inputs.length; i++) {
             if (inputs[i].offsetParent !== null) {
@@ -713,33 +2281,271 @@ export class Browser {
       if (!el) {
         return 'No input element found';
       }
+      const editable = el.tagName !== 'INPUT' && el.tagName !== 'TEXTAREA';
+      if (editable && !el.isContentEditable) {
+        return 'No input element at ' + selector + ': <' + el.tagName.toLowerCase() + '> is not a text input, textarea, or contenteditable region';
+      }
       el.focus();
       el.scrollIntoView({ block: 'center' });
-      const newVal = append ? (el.value || '') + text : text;
-      const proto = el.tagName === 'TEXTAREA'
-        ? window.HTMLTextAreaElement.prototype
-        : window.HTMLInputElement.prototype;
-      const nativeSetter = Object.getOwnPropertyDescriptor(proto, 'value');
-      if (nativeSetter && nativeSetter.set) {
-        nativeSetter.set.call(el, newVal);
+      if (editable) {
+        const doc = el.ownerDocument;
+        const selection = doc.getSelection();
+        if (selection) {
+          const range = doc.createRange();
+          range.selectNodeContents(el);
+          if (append) {
+            range.collapse(false);
+          }
+          selection.removeAllRanges();
+          selection.addRange(range);
+        }
+        if (!doc.execCommand('insertText', false, text)) {
+          el.textContent = append ? (el.textContent || '') + text : text;
+          el.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+        }
       } else {
-        el.value = newVal;
+        const newVal = append ? (el.value || '') + text : text;
+        const view = el.ownerDocument.defaultView || window;
+        const proto = el.tagName === 'TEXTAREA'
+          ? view.HTMLTextAreaElement.prototype
+          : view.HTMLInputElement.prototype;
+        const nativeSetter = Object.getOwnPropertyDescriptor(proto, 'value');
+        if (nativeSetter && nativeSetter.set) {
+          nativeSetter.set.call(el, newVal);
+        } else {
+          el.value = newVal;
+        }
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
       }
-      el.dispatchEvent(new Event('input', { bubbles: true }));
-      el.dispatchEvent(new Event('change', { bubbles: true }));
-      const desc = el.tagName.toLowerCase() + (el.name ? '[name=' + el.name + ']' : '') + (el.id ? '#' + el.id : '');
+      const desc = el.tagName.toLowerCase() + (el.getAttribute('name') ? '[name=' + el.getAttribute('name') + ']' : '') + (el.id ? '#' + el.id : '');
       if (submit) {
         const enterOpts = { key: 'Enter', code: 'Enter', keyCode: 13, which: 13, bubbles: true };
         el.dispatchEvent(new KeyboardEvent('keydown', enterOpts));
         el.dispatchEvent(new KeyboardEvent('keypress', enterOpts));
         el.dispatchEvent(new KeyboardEvent('keyup', enterOpts));
-        if (el.form) {
+        if (!editable && el.form) {
           el.form.submit();
         }
         return 'Typed and submitted in: ' + desc;
       }
       return 'Typed in: ' + desc;
     }
-    return this.serialize(script, text, selector || '', append || false, submit || false);
+    return this.serializeWithDom(script, text, selector || '', append || false, submit || false);
+  }
+
+  /**
+   * Builds a script to clear a working tab marker from the page
+   *
+   * Restores the empty `window.name` the page had before {@link markTab}.
+   * A name the page has since set itself is left alone.
+   *
+   * @param {string} marker - Working tab marker
+   * @returns {string} Browser script string returning "true" when cleared
+   */
+  unmarkTab(marker: string): string {
+    function script(marker: string): string {
+      if (window.name !== marker) {
+        return 'false';
+      }
+      window.name = '';
+      return 'true';
+    }
+    return this.serialize(script, marker);
+  }
+
+  /**
+   * Builds a script to attach staged files to a file input or drop zone
+   *
+   * Decodes the base64 chunks staged by {@link uploadChunk} into `File`
+   * objects and clears the staging slot. A file input gets the files
+   * through a `DataTransfer` followed by input and change events; any other
+   * element receives dragenter, dragover, and drop events carrying them.
+   * Without a selector the first file input on the page is used.
+   *
+   * @param {string} id - Staging slot id the chunks were written to
+   * @param {{name: string, type: string, lastModified: number}[]} files - File metadata, in staging order
+   * @param {string} [selector] - CSS selector for the file input or drop zone
+   * @returns {string} Browser script string returning `{ element, target, files, accepted }` JSON
+   */
+  upload(id: string, files: { name: string; type: string; lastModified: number }[], selector?: string): string {
+    function script(id: string, files: { name: string; type: string; lastModified: number }[], selector: string): string {
+      const dom = window.__safariDom!;
+      const staged = (window.__safariUploads || {})[id] || [];
+      if (window.__safariUploads) {
+        delete window.__safariUploads[id];
+      }
+      const el = selector ? dom.query(selector) : dom.query('input[type="file"]');
+      if (!el) {
+        return selector ? 'No element found for selector: ' + selector : 'No element found for selector: input[type="file"]';
+      }
+      const view = el.ownerDocument.defaultView || window;
+      const transfer = new view.DataTransfer();
+      for (let i = 0; i < files.length; i++) {
+        const binary = atob((staged[i] || []).join(''));
+        const bytes = new Uint8Array(binary.length);
+        for (let j = 0; j < binary.length; j++) {
+          bytes[j] = binary.charCodeAt(j);
+        }
+        transfer.items.add(new view.File([bytes], files[i].name, { type: files[i].type, lastModified: files[i].lastModified }));
+      }
+      const desc = el.tagName.toLowerCase() + (el.getAttribute('type') ? '[type=' + el.getAttribute('type') + ']' : '')
+        + (el.getAttribute('name') ? '[name=' + el.getAttribute('name') + ']' : '') + (el.id ? '#' + el.id : '');
+      const list = (fileList: FileList) => Array.from(fileList).map((file) => ({ name: file.name, size: file.size, type: file.type }));
+      if (el.tagName === 'INPUT' && (el as HTMLInputElement).type === 'file') {
+        const input = el as HTMLInputElement;
+        if (files.length > 1 && !input.multiple) {
+          return 'Single file input ' + desc + ' cannot take ' + files.length + ' files';
+        }
+        input.files = transfer.files;
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+        input.dispatchEvent(new Event('change', { bubbles: true }));
+        const accepted = input.files ? list(input.files) : [];
+        return JSON.stringify({ element: desc, target: 'input', files: accepted, accepted: accepted.length === files.length });
+      }
+      el.scrollIntoView({ block: 'center' });
+      const rect = el.getBoundingClientRect();
+      const opts = { bubbles: true, cancelable: true, clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2, dataTransfer: transfer };
+      el.dispatchEvent(new view.DragEvent('dragenter', opts));
+      el.dispatchEvent(new view.DragEvent('dragover', opts));
+      const drop = new view.DragEvent('drop', opts);
+      el.dispatchEvent(drop);
+      return JSON.stringify({ element: desc, target: 'drop', files: list(transfer.files), accepted: drop.defaultPrevented });
+    }
+    return this.serializeWithDom(script, id, files, selector || '');
+  }
+
+  /**
+   * Builds a script to stage one base64 chunk of a file for {@link upload}
+   *
+   * @param {string} id - Staging slot id
+   * @param {number} file - File index within the upload
+   * @param {string} chunk - Base64 chunk, appended after earlier chunks of the file
+   * @returns {string} Browser script string returning the staged chunk count of the file
+   */
+  uploadChunk(id: string, file: number, chunk: string): string {
+    function script(id: string, file: number, chunk: string): string {
+      const uploads = window.__safariUploads || (window.__safariUploads = {});
+      const slot = uploads[id] || (uploads[id] = []);
+      const chunks = slot[file] || (slot[file] = []);
+      chunks.push(chunk);
+      return String(chunks.length);
+    }
+    return this.serialize(script, id, file, chunk);
+  }
+
+  /**
+   * Builds a script to drop the chunks staged for an {@link upload}
+   *
+   * Used when a chunk transfer fails before the upload script consumes
+   * the staging slot.
+   *
+   * @param {string} id - Staging slot id
+   * @returns {string} Browser script string returning "true" when a slot was dropped
+   */
+  uploadClear(id: string): string {
+    function script(id: string): string {
+      if (!window.__safariUploads || !window.__safariUploads[id]) {
+        return 'false';
+      }
+      delete window.__safariUploads[id];
+      return 'true';
+    }
+    return this.serialize(script, id);
+  }
+
+  /**
+   * Builds a script to read the viewport and window outer dimensions
+   *
+   * The difference between outer and inner sizes is the browser chrome,
+   * used to size the window so the viewport lands on an exact target.
+   *
+   * @returns {string} Browser script string
+   */
+  viewportSize(): string {
+    function script(): string {
+      return JSON.stringify({
+        innerWidth: window.innerWidth,
+        innerHeight: window.innerHeight,
+        outerWidth: window.outerWidth,
+        outerHeight: window.outerHeight
+      });
+    }
+    return this.serialize(script);
+  }
+
+  /**
+   * Builds a script to install a condition watcher and read its result slot
+   *
+   * The first call installs a watcher in `window.__safariWatches[id]` that
+   * re-evaluates the condition on every DOM mutation and on a 50ms timer,
+   * recording the match in the slot and tearing itself down. Later calls
+   * only read the slot, so the client can poll with backoff instead of
+   * evaluating the condition per round trip. The watcher is re-installed
+   * when the page navigated away and the slot is gone, and the slot is
+   * removed once a match has been read.
+   *
+   * @param {string} id - Watcher id, unique per wait
+   * @param {WatchCondition} condition - Condition to watch for
+   * @param {number} lifetimeMs - Time after which an unmatched watcher stops evaluating
+   * @returns {string} Browser script string returning "true" or "false"
+   */
+  watch(id: string, condition: WatchCondition, lifetimeMs: number): string {
+    function script(id: string, condition: WatchCondition, lifetimeMs: number): string {
+      const watches = window.__safariWatches || (window.__safariWatches = {});
+      let watch = watches[id];
+      if (!watch) {
+        const dom = window.__safariDom!;
+        const slot: SafariWatch = { matched: false, started: Date.now() };
+        let lastMutation = slot.started;
+        let title = document.title;
+        let titleSince = slot.started;
+        const check = (): boolean => {
+          const now = Date.now();
+          switch (condition.kind) {
+            case 'domStable':
+              return now - lastMutation >= condition.quietMs;
+            case 'networkIdle': {
+              const log = window.__safariNetwork;
+              return !!log && log.pending === 0 && now - Math.max(log.lastActivity, slot.started) >= condition.quietMs;
+            }
+            case 'pageLoad':
+              if (document.title !== title) {
+                title = document.title;
+                titleSince = now;
+              }
+              return document.readyState === 'complete' && title !== '' && now - titleSince >= 100;
+            case 'selector':
+              return dom.query(condition.selector) !== null;
+            case 'selectorGone':
+              return dom.query(condition.selector) === null;
+            case 'text':
+              return (document.body ? document.body.innerText || '' : '').indexOf(condition.text) !== -1;
+          }
+        };
+        const evaluate = (): void => {
+          if (check()) {
+            slot.matched = true;
+          }
+          if (slot.matched || Date.now() - slot.started > lifetimeMs) {
+            observer.disconnect();
+            clearInterval(timer);
+          }
+        };
+        const observer = new MutationObserver(() => {
+          lastMutation = Date.now();
+          evaluate();
+        });
+        observer.observe(document.documentElement, { attributes: true, characterData: true, childList: true, subtree: true });
+        const timer = setInterval(evaluate, 50);
+        watch = watches[id] = slot;
+        evaluate();
+      }
+      if (watch.matched) {
+        delete watches[id];
+      }
+      return watch.matched ? 'true' : 'false';
+    }
+    return this.serializeWithDom(script, id, condition, lifetimeMs);
   }
 }
@@ -0,0 +1,498 @@
+/**
+ * Command executor backends for Safari MCP Server
+ *
+ * Provides the process boundary used by the client for every `osascript`,
+ * `screencapture`, and `defaults` invocation. The default backend spawns
+ * the command; the worker backend keeps one `osascript` process alive for
+ * AppleScript and JXA; the recording and replay backends capture and serve
+ * transcripts so tool flows can be reproduced without Safari.
+ *
+ * @module lib/executor
+ * @author AXIVO
+ * @license BSD-3-Clause
+ */
+
+import { type ChildProcessWithoutNullStreams, execFile, spawn } from 'child_process';
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+
+/**
+ * Transcript entry - one command invocation with its stdout or error
+ *
+ * `output` carries the base64 content of the file the command wrote,
+ * when the caller declared one (e.g. the `screencapture` image path).
+ */
+type TranscriptEntry = {
+  cmd: string;
+  args: string[];
+  stdout?: string;
+  error?: string;
+  output?: string;
+};
+
+/**
+ * Worker request - one AppleScript or JXA source to run in the worker
+ */
+type WorkerRequest = { id: number; lang: 'AppleScript' | 'JavaScript'; script: string };
+
+/**
+ * Worker response - stdout or error message for a request id
+ */
+type WorkerResponse = { id: number; stdout?: string; error?: string };
+
+/**
+ * Placeholder replacing the declared output path in transcript keys
+ */
+const OUTPUT_PLACEHOLDER = '{{OUTPUT}}';
+
+/**
+ * Time after which an unanswered worker request kills and restarts the worker
+ */
+const WORKER_REQUEST_TIMEOUT = 120000;
+
+/**
+ * JXA program run by the persistent `osascript` worker
+ *
+ * Reads one JSON request per line from stdin and writes one JSON response
+ * per line to stdout. AppleScript runs through `NSAppleScript` with the
+ * result formatted as `osascript` prints it; JXA runs through global eval.
+ * Both directions escape non-ASCII characters so chunked reads never split
+ * a multi-byte sequence.
+ */
+const WORKER_SCRIPT = `
+ObjC.import('Foundation');
+const stdin = $.NSFileHandle.fileHandleWithStandardInput;
+const stdout = $.NSFileHandle.fileHandleWithStandardOutput;
+const code = (s) => (s.charCodeAt(0) << 24 | s.charCodeAt(1) << 16 | s.charCodeAt(2) << 8 | s.charCodeAt(3)) >>> 0;
+const ascii = (s) => s.replace(/[\\u007f-\\uffff]/g, (c) => '\\\\u' + ('000' + c.charCodeAt(0).toString(16)).slice(-4));
+const write = (response) => stdout.writeData($(ascii(JSON.stringify(response)) + '\\n').dataUsingEncoding($.NSUTF8StringEncoding));
+const format = (d) => {
+  const type = d.descriptorType >>> 0;
+  if (type === code('true')) return 'true';
+  if (type === code('fals')) return 'false';
+  if (type === code('bool')) return d.booleanValue ? 'true' : 'false';
+  if (type === code('type') && (d.typeCodeValue >>> 0) === code('msng')) return 'missing value';
+  if (type === code('list')) {
+    const items = [];
+    for (let i = 1; i <= d.numberOfItems; i++) items.push(format(d.descriptorAtIndex(i)));
+    return items.join(', ');
+  }
+  const text = ObjC.unwrap(d.stringValue);
+  return text === undefined || text === null ? '' : String(text);
+};
+const appleScript = (source) => {
+  const error = Ref();
+  const result = $.NSAppleScript.alloc.initWithSource(source).executeAndReturnError(error);
+  if (!result || result.isNil()) {
+    const info = error[0];
+    const message = ObjC.unwrap(info.objectForKey('NSAppleScriptErrorMessage'));
+    const number = ObjC.unwrap(info.objectForKey('NSAppleScriptErrorNumber'));
+    throw new Error('execution error: ' + message + ' (' + number + ')');
+  }
+  const text = format(result);
+  return text === '' ? '' : text + '\\n';
+};
+const javaScript = (source) => {
+  const result = (0, eval)(source);
+  return result === undefined ? '' : String(result) + '\\n';
+};
+let buffer = '';
+while (true) {
+  const data = stdin.availableData;
+  if (data.length === 0) break;
+  buffer += $.NSString.alloc.initWithDataEncoding(data, $.NSUTF8StringEncoding).js;
+  let newline;
+  while ((newline = buffer.indexOf('\\n')) !== -1) {
+    const line = buffer.slice(0, newline);
+    buffer = buffer.slice(newline + 1);
+    if (!line) continue;
+    let request = null;
+    try {
+      request = JSON.parse(line);
+      write({ id: request.id, stdout: request.lang === 'JavaScript' ? javaScript(request.script) : appleScript(request.script) });
+    } catch (e) {
+      write({ id: request ? request.id : null, error: String(e && e.message || e) });
+    }
+  }
+}
+`;
+
+/**
+ * Command executor contract
+ *
+ * Implementations run a command with arguments and resolve with the raw
+ * (untrimmed) stdout, rejecting with the failure message otherwise.
+ *
+ * @interface Executor
+ */
+export interface Executor {
+  /**
+   * Runs a command and returns its stdout
+   *
+   * @param {string} cmd - Command to execute
+   * @param {string[]} args - Command arguments
+   * @param {string} [output] - File path the command writes to, when any
+   * @returns {Promise<string>} Process stdout
+   */
+  run(cmd: string, args: string[], output?: string): Promise<string>;
+}
+
+/**
+ * Executor spawning each command as a child process
+ *
+ * @class ProcessExecutor
+ */
+export class ProcessExecutor implements Executor {
+  /**
+   * Runs a command through `execFile` with a 50MB buffer
+   *
+   * @param {string} cmd - Command to execute
+   * @param {string[]} args - Command arguments
+   * @returns {Promise<string>} Process stdout
+   */
+  async run(cmd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(cmd, args, { maxBuffer: 50 * 1024 * 1024 }, (error, stdout) => {
+        if (error) {
+          reject(new Error(error.message));
+          return;
+        }
+        resolve(stdout);
+      });
+    });
+  }
+}
+
+/**
+ * Executor running AppleScript and JXA in one long-lived `osascript` worker
+ *
+ * `osascript -e <source>` and `osascript -l JavaScript -e <source>` calls
+ * are sent to the worker over stdin with a request id and answered over
+ * stdout, avoiding a process spawn per call. Any other command goes to the
+ * fallback executor. A worker that exits, fails to spawn, or leaves a
+ * request unanswered for two minutes is discarded with its in-flight
+ * requests rejected, and the next call starts a fresh one.
+ *
+ * @class WorkerExecutor
+ */
+export class WorkerExecutor implements Executor {
+  private buffer: string;
+  private fallback: Executor;
+  private nextId: number;
+  private pending: Map<number, { resolve: (stdout: string) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>;
+  private worker: ChildProcessWithoutNullStreams | null;
+
+  /**
+   * Creates a new WorkerExecutor instance
+   *
+   * @param {Executor} [fallback] - Executor for commands the worker does not handle; defaults to ProcessExecutor
+   */
+  constructor(fallback: Executor = new ProcessExecutor()) {
+    this.buffer = '';
+    this.fallback = fallback;
+    this.nextId = 1;
+    this.pending = new Map();
+    this.worker = null;
+  }
+
+  /**
+   * Escapes non-ASCII characters in a JSON line for chunk-safe transport
+   *
+   * @private
+   * @param {string} line - Serialized JSON
+   * @returns {string} ASCII-only JSON
+   */
+  private ascii(line: string): string {
+    return line.replace(/[\u007f-\uffff]/g, (c) => '\\u' + c.charCodeAt(0).toString(16).padStart(4, '0'));
+  }
+
+  /**
+   * Discards the worker and rejects every in-flight request
+   *
+   * @private
+   * @param {string} reason - Failure message for the rejected requests
+   */
+  private discard(reason: string): void {
+    const worker = this.worker;
+    this.worker = null;
+    this.buffer = '';
+    if (worker && worker.exitCode === null) {
+      worker.kill();
+    }
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error(`osascript worker ${reason} before answering request ${id}`));
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Resolves worker responses from newline-delimited stdout data
+   *
+   * A line that is not JSON discards the worker, so in-flight requests are
+   * rejected and the next call spawns a fresh one.
+   *
+   * @private
+   * @param {string} chunk - Stdout data
+   */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line.trim()) {
+        continue;
+      }
+      let response: WorkerResponse;
+      try {
+        response = JSON.parse(line) as WorkerResponse;
+      } catch {
+        this.discard('sent malformed output');
+        return;
+      }
+      const request = this.pending.get(response.id);
+      if (!request) {
+        continue;
+      }
+      this.pending.delete(response.id);
+      clearTimeout(request.timer);
+      if (response.error !== undefined) {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve(response.stdout ?? '');
+      }
+    }
+  }
+
+  /**
+   * Maps an `osascript` invocation onto a worker request
+   *
+   * @private
+   * @param {string} cmd - Command to execute
+   * @param {string[]} args - Command arguments
+   * @returns {Omit<WorkerRequest, 'id'> | null} Request, or null when the worker does not handle the command
+   */
+  private request(cmd: string, args: string[]): Omit<WorkerRequest, 'id'> | null {
+    if (cmd !== 'osascript') {
+      return null;
+    }
+    if (args.length === 2 && args[0] === '-e') {
+      return { lang: 'AppleScript', script: args[1] };
+    }
+    if (args.length === 4 && args[0] === '-l' && args[1] === 'JavaScript' && args[2] === '-e') {
+      return { lang: 'JavaScript', script: args[3] };
+    }
+    return null;
+  }
+
+  /**
+   * Returns the running worker, spawning one when none is alive
+   *
+   * @private
+   * @returns {ChildProcessWithoutNullStreams} Worker process
+   */
+  private spawn(): ChildProcessWithoutNullStreams {
+    if (this.worker) {
+      return this.worker;
+    }
+    const worker = spawn('osascript', ['-l', 'JavaScript', '-e', WORKER_SCRIPT]);
+    const stop = (): void => {
+      worker.kill();
+    };
+    worker.stdout.setEncoding('utf8');
+    worker.stdout.on('data', (chunk: string) => {
+      if (this.worker === worker) {
+        this.receive(chunk);
+      }
+    });
+    worker.stdin.on('error', () => {
+      // Surfaced through the exit or error event.
+    });
+    worker.on('error', (error) => {
+      process.off('exit', stop);
+      if (this.worker === worker) {
+        this.discard(`failed (${error.message})`);
+      }
+    });
+    worker.on('exit', (code, signal) => {
+      process.off('exit', stop);
+      if (this.worker === worker) {
+        this.discard(`exited (${signal ?? code})`);
+      }
+    });
+    process.on('exit', stop);
+    this.worker = worker;
+    return worker;
+  }
+
+  /**
+   * Stops the worker, rejecting any in-flight requests
+   */
+  close(): void {
+    this.discard('closed');
+  }
+
+  /**
+   * Runs AppleScript or JXA in the worker, or any other command through the fallback
+   *
+   * @param {string} cmd - Command to execute
+   * @param {string[]} args - Command arguments
+   * @param {string} [output] - File path the command writes to, when any
+   * @returns {Promise<string>} Script or process stdout
+   */
+  async run(cmd: string, args: string[], output?: string): Promise<string> {
+    const request = this.request(cmd, args);
+    if (!request) {
+      return this.fallback.run(cmd, args, output);
+    }
+    const worker = this.spawn();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (this.worker === worker) {
+          this.discard(`timed out after ${WORKER_REQUEST_TIMEOUT}ms`);
+        }
+      }, WORKER_REQUEST_TIMEOUT);
+      this.pending.set(id, { resolve, reject, timer });
+      worker.stdin.write(this.ascii(JSON.stringify({ id, ...request })) + '\n');
+    });
+  }
+}
+
+/**
+ * Executor recording every command into a JSON Lines transcript
+ *
+ * Delegates to an inner executor and appends one entry per invocation
+ * with the command, arguments, stdout or error message, and the content
+ * of any declared output file. The transcript is truncated on creation.
+ *
+ * @class RecordingExecutor
+ */
+export class RecordingExecutor implements Executor {
+  private inner: Executor;
+  private path: string;
+
+  /**
+   * Creates a new RecordingExecutor instance
+   *
+   * @param {Executor} inner - Executor performing the real invocation
+   * @param {string} path - Transcript file path
+   */
+  constructor(inner: Executor, path: string) {
+    this.inner = inner;
+    this.path = path;
+    writeFileSync(this.path, '');
+  }
+
+  /**
+   * Appends a transcript entry as a single JSON line
+   *
+   * @private
+   * @param {TranscriptEntry} entry - Entry to append
+   */
+  private append(entry: TranscriptEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+  }
+
+  /**
+   * Runs a command through the inner executor and records the outcome
+   *
+   * @param {string} cmd - Command to execute
+   * @param {string[]} args - Command arguments
+   * @param {string} [output] - File path the command writes to, when any
+   * @returns {Promise<string>} Process stdout
+   */
+  async run(cmd: string, args: string[], output?: string): Promise<string> {
+    const recordedArgs = args.map((arg) => arg === output ? OUTPUT_PLACEHOLDER : arg);
+    try {
+      const stdout = await this.inner.run(cmd, args, output);
+      const entry: TranscriptEntry = { cmd, args: recordedArgs, stdout };
+      if (output && existsSync(output)) {
+        entry.output = readFileSync(output).toString('base64');
+      }
+      this.append(entry);
+      return stdout;
+    } catch (error) {
+      this.append({ cmd, args: recordedArgs, error: (error as Error).message });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Executor serving responses from a recorded transcript
+ *
+ * Entries are grouped by command and arguments (with the output path
+ * normalized) and served in recorded order per group. When a group is
+ * exhausted the last entry is repeated, so polling loops that run more
+ * iterations than during recording still settle on the final state.
+ *
+ * @class ReplayExecutor
+ */
+export class ReplayExecutor implements Executor {
+  private cursors: Map<string, number>;
+  private entries: Map<string, TranscriptEntry[]>;
+
+  /**
+   * Creates a new ReplayExecutor instance
+   *
+   * @param {string} path - Transcript file path written by RecordingExecutor
+   */
+  constructor(path: string) {
+    this.cursors = new Map();
+    this.entries = new Map();
+    const lines = readFileSync(path, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      const entry = JSON.parse(line) as TranscriptEntry;
+      const key = this.key(entry.cmd, entry.args);
+      const group = this.entries.get(key) ?? [];
+      group.push(entry);
+      this.entries.set(key, group);
+    }
+  }
+
+  /**
+   * Builds the lookup key for a command invocation
+   *
+   * @private
+   * @param {string} cmd - Command name
+   * @param {string[]} args - Command arguments with the output path normalized
+   * @returns {string} Lookup key
+   */
+  private key(cmd: string, args: string[]): string {
+    return JSON.stringify([cmd, ...args]);
+  }
+
+  /**
+   * Serves the next recorded response for a command invocation
+   *
+   * Restores the recorded output file to the requested path before
+   * resolving, and rejects with the recorded error message when the
+   * original invocation failed.
+   *
+   * @param {string} cmd - Command to execute
+   * @param {string[]} args - Command arguments
+   * @param {string} [output] - File path the command writes to, when any
+   * @returns {Promise<string>} Recorded stdout
+   */
+  async run(cmd: string, args: string[], output?: string): Promise<string> {
+    const key = this.key(cmd, args.map((arg) => arg === output ? OUTPUT_PLACEHOLDER : arg));
+    const group = this.entries.get(key);
+    if (!group || group.length === 0) {
+      throw new Error(`No recorded response in transcript for: ${cmd} ${args.join(' ').substring(0, 200)}`);
+    }
+    const cursor = this.cursors.get(key) ?? 0;
+    const entry = group[Math.min(cursor, group.length - 1)];
+    this.cursors.set(key, cursor + 1);
+    if (output && entry.output !== undefined) {
+      writeFileSync(output, Buffer.from(entry.output, 'base64'));
+    }
+    if (entry.error !== undefined) {
+      throw new Error(entry.error);
+    }
+    return entry.stdout ?? '';
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Flow recording for Safari MCP Server
+ *
+ * Records tool calls with their arguments, key results, and the page
+ * title and URL they left behind into a JSON flow file, which the
+ * `replay` tool and CLI command run again with assertions.
+ *
+ * @module lib/flow
+ * @author AXIVO
+ * @license BSD-3-Clause
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+
+/**
+ * Flow assertions - page conditions checked after a replayed step
+ *
+ * `title` and `url` are recorded from the step's tab; `selector` is not
+ * recorded and can be added to a flow by hand.
+ */
+export type FlowExpect = {
+  selector?: string;
+  title?: string;
+  url?: string;
+};
+
+/**
+ * Flow step - one tool call with its outcome
+ */
+export type FlowStep = {
+  tool: string;
+  args: Record<string, unknown>;
+  ok: boolean;
+  result?: unknown;
+  error?: { code: string; message: string };
+  expect?: FlowExpect;
+};
+
+/**
+ * Flow - recorded tool calls in call order
+ */
+export type Flow = {
+  version: number;
+  recorded: string;
+  steps: FlowStep[];
+};
+
+/**
+ * Flow file format version written by the recorder
+ */
+const FLOW_VERSION = 1;
+
+/**
+ * Recorder writing tool calls into a JSON flow file
+ *
+ * The file is rewritten after every step, so a flow survives the server
+ * being stopped mid-session. The file is truncated on creation.
+ *
+ * @class FlowRecorder
+ */
+export class FlowRecorder {
+  private flow: Flow;
+  private path: string;
+
+  /**
+   * Creates a new FlowRecorder instance
+   *
+   * @param {string} path - Flow file path
+   */
+  constructor(path: string) {
+    this.flow = { version: FLOW_VERSION, recorded: new Date().toISOString(), steps: [] };
+    this.path = path;
+    this.write();
+  }
+
+  /**
+   * Reads and validates a flow file
+   *
+   * @param {string} path - Flow file path
+   * @returns {Flow} Parsed flow
+   * @throws {Error} When the file is missing, is not JSON, or holds no step list
+   */
+  static read(path: string): Flow {
+    const flow = JSON.parse(readFileSync(path, 'utf8')) as Partial<Flow>;
+    if (!flow || !Array.isArray(flow.steps)) {
+      throw new Error(`Flow file ${path} has no steps list`);
+    }
+    for (const [index, step] of flow.steps.entries()) {
+      if (!step || typeof step.tool !== 'string' || (step.args !== undefined && (typeof step.args !== 'object' || step.args === null))) {
+        throw new Error(`Flow file ${path} step ${index + 1} needs a tool name and an args object`);
+      }
+    }
+    return { version: flow.version ?? FLOW_VERSION, recorded: flow.recorded ?? '', steps: flow.steps.map((step) => ({ ...step, args: step.args ?? {} })) };
+  }
+
+  /**
+   * Writes the flow to its file
+   *
+   * @private
+   */
+  private write(): void {
+    writeFileSync(this.path, JSON.stringify(this.flow, null, 2) + '\n');
+  }
+
+  /**
+   * Appends a step and rewrites the flow file
+   *
+   * @param {FlowStep} step - Step to record
+   */
+  record(step: FlowStep): void {
+    this.flow.steps.push(step);
+    this.write();
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Operation queue for Safari MCP Server
+ *
+ * Serializes tool operations per tab. Exclusive operations (act tools and
+ * captures that scroll the page) run alone on their tab; shared operations
+ * (read-only observe tools) run concurrently with each other. Waiters are
+ * served in arrival order, so a queued exclusive operation is not starved
+ * by a stream of shared ones.
+ *
+ * @module lib/queue
+ * @author AXIVO
+ * @license BSD-3-Clause
+ */
+
+/**
+ * Queue mode - whether an operation needs the tab to itself
+ */
+export type QueueMode = 'exclusive' | 'shared';
+
+/**
+ * Queued operation waiting for its turn on a lane
+ */
+type Waiter = { mode: QueueMode; start: () => void };
+
+/**
+ * Lane - running and waiting operations for one tab
+ */
+type Lane = { running: number; exclusive: boolean; waiting: Waiter[] };
+
+/**
+ * Per-tab reader/writer operation queue
+ *
+ * @class OperationQueue
+ */
+export class OperationQueue {
+  private lanes: Map<string, Lane>;
+
+  /**
+   * Creates a new OperationQueue instance
+   */
+  constructor() {
+    this.lanes = new Map();
+  }
+
+  /**
+   * Waits until the lane admits an operation in the given mode
+   *
+   * @private
+   * @param {Lane} lane - Lane to enter
+   * @param {QueueMode} mode - Operation mode
+   * @returns {Promise<void>} Resolves once the operation holds the lane
+   */
+  private acquire(lane: Lane, mode: QueueMode): Promise<void> {
+    if (lane.waiting.length === 0 && this.admits(lane, mode)) {
+      this.grant(lane, mode);
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      lane.waiting.push({ mode, start: resolve });
+    });
+  }
+
+  /**
+   * Checks whether a lane can admit an operation right now
+   *
+   * @private
+   * @param {Lane} lane - Lane to check
+   * @param {QueueMode} mode - Operation mode
+   * @returns {boolean} Whether the operation may start
+   */
+  private admits(lane: Lane, mode: QueueMode): boolean {
+    return mode === 'shared' ? !lane.exclusive : lane.running === 0;
+  }
+
+  /**
+   * Records an operation as running on a lane
+   *
+   * @private
+   * @param {Lane} lane - Lane entered
+   * @param {QueueMode} mode - Operation mode
+   */
+  private grant(lane: Lane, mode: QueueMode): void {
+    lane.running++;
+    if (mode === 'exclusive') {
+      lane.exclusive = true;
+    }
+  }
+
+  /**
+   * Releases an operation and starts the waiters the lane now admits
+   *
+   * Consecutive shared waiters start together; an exclusive waiter starts
+   * alone. Idle lanes are dropped.
+   *
+   * @private
+   * @param {string} key - Lane key
+   * @param {Lane} lane - Lane left
+   * @param {QueueMode} mode - Operation mode
+   */
+  private release(key: string, lane: Lane, mode: QueueMode): void {
+    lane.running--;
+    if (mode === 'exclusive') {
+      lane.exclusive = false;
+    }
+    while (lane.waiting.length > 0 && this.admits(lane, lane.waiting[0].mode)) {
+      const next = lane.waiting.shift()!;
+      this.grant(lane, next.mode);
+      next.start();
+    }
+    if (lane.running === 0 && lane.waiting.length === 0) {
+      this.lanes.delete(key);
+    }
+  }
+
+  /**
+   * Reports running and waiting operations per active lane
+   *
+   * @returns {{tab: string, running: number, waiting: number}[]} Queue depth per tab
+   */
+  depth(): { tab: string; running: number; waiting: number }[] {
+    return Array.from(this.lanes, ([tab, lane]) => ({ tab, running: lane.running, waiting: lane.waiting.length }));
+  }
+
+  /**
+   * Runs an operation once its tab lane admits it
+   *
+   * @param {string} key - Lane key identifying the tab
+   * @param {QueueMode} mode - Operation mode
+   * @param {Function} task - Operation to run
+   * @returns {Promise<T>} Operation result
+   */
+  async run<T>(key: string, mode: QueueMode, task: () => Promise<T>): Promise<T> {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { running: 0, exclusive: false, waiting: [] };
+      this.lanes.set(key, lane);
+    }
+    await this.acquire(lane, mode);
+    try {
+      return await task();
+    } finally {
+      this.release(key, lane, mode);
+    }
+  }
+}
@@ -6,20 +6,57 @@
  * @license BSD-3-Clause
  */
 
-import { execFile } from 'child_process';
-import { readFileSync, unlinkSync } from 'fs';
+import { existsSync, readFileSync, realpathSync, statSync, unlinkSync } from 'fs';
 import { homedir, tmpdir } from 'os';
-import { dirname, join } from 'path';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from 'path';
 import sharp, { type FormatEnum } from 'sharp';
 import { fileURLToPath } from 'url';
 import { Automation } from '../lib/automation.js';
-import { Browser } from '../lib/browser.js';
+import { Browser, type DragPoint, type FillResult, type NetworkEntry, type WatchCondition } from '../lib/browser.js';
+import { type Executor, ProcessExecutor, RecordingExecutor, ReplayExecutor, WorkerExecutor } from '../lib/executor.js';
+import { ToolError, type ToolErrorCode } from './error.js';
+
+/**
+ * Page state - page metadata, focus, dialogs, DOM fingerprint, and window tabs
+ */
+export type PageState = {
+  title: string;
+  url: string;
+  innerHeight: number;
+  scrollHeight: number;
+  scrollOffset: number;
+  pages: number;
+  focus: string;
+  dialogs: number;
+  elements: number;
+  fingerprint: string;
+  tabs: Omit<TabInfo, 'loading' | 'working'>[];
+};
+
+/**
+ * Tab info - one Safari tab with its window, loading state, and session
+ */
+export type TabInfo = {
+  active: boolean;
+  index: number;
+  title: string;
+  url: string;
+  windowId: number;
+  loading?: boolean;
+  working: boolean;
+  session?: string;
+};
 
 /**
  * Tab target - a (windowId, tabIndex) pair identifying a specific Safari tab
  */
 type TabTarget = { windowId: number; index: number };
 
+/**
+ * Working tab - tab target plus the identity used to find it again after tabs move or close
+ */
+type WorkingTab = TabTarget & { marker: string; tabCount: number; url: string };
+
 /**
  * Screenshot mode - selects what gets captured
  */
@@ -37,11 +74,108 @@ type ScreenshotResult =
  */
 type ScreenshotTarget = { path: string; type: string; mimeType: string; isTemp: boolean };
 
+/**
+ * Settle conditions - quiet periods in milliseconds to wait for after an action
+ */
+type SettleOptions = { domStable?: number; networkIdle?: number };
+
+/**
+ * Doctor check - outcome of one prerequisite probe with its diagnosis
+ */
+type DoctorCheck = {
+  name: 'automation' | 'javascript' | 'screenRecording' | 'tabs';
+  status: 'fail' | 'pass' | 'skip' | 'unknown';
+  detail: string;
+  code?: ToolErrorCode;
+  fix?: string;
+};
+
+/**
+ * Doctor report - prerequisite checks plus Safari environment details
+ */
+type DoctorReport = {
+  ok: boolean;
+  checks: DoctorCheck[];
+  safariRunning: boolean;
+  safariVersion: string;
+  windows: number;
+  searchEngine: { detected: boolean; detail: string };
+};
+
+/**
+ * Actionable fix for each failed doctor check
+ */
+const DOCTOR_FIXES: Record<DoctorCheck['name'], string> = {
+  automation: 'System Settings → Privacy & Security → Automation → enable Safari for the app running this server',
+  javascript: 'Safari → Settings → Developer → enable "Allow JavaScript from Apple Events"',
+  screenRecording: 'System Settings → Privacy & Security → Screen & System Audio Recording → enable the app running this server',
+  tabs: 'System Settings → Desktop & Dock → Windows → set "Prefer tabs when opening documents" to Always'
+};
+
+/**
+ * Session name used by act operations that do not name a session
+ */
+export const DEFAULT_SESSION = 'default';
+
 /**
  * Error message thrown by observe operations when Safari has no windows open
  */
 const NO_WINDOW_ERROR = 'No Safari window is open. Use an act operation (navigate, open) first or open a window in Safari.';
 
+/**
+ * Error message thrown by act operations when the working tab can no longer be found
+ */
+const TAB_CLOSED_ERROR = 'The working tab was closed. The next act operation opens a new working tab.';
+
+/**
+ * Raw bytes per chunk when transferring upload files into the page, a
+ * multiple of 3 so the base64 chunks concatenate without inner padding
+ */
+const UPLOAD_CHUNK_SIZE = 192 * 1024;
+
+/**
+ * Maximum total size of the files in one upload, in bytes
+ */
+const UPLOAD_LIMIT = 25 * 1024 * 1024;
+
+/**
+ * MIME types by file extension for uploaded files, others are sent as `application/octet-stream`
+ */
+const UPLOAD_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+  '.htm': 'text/html',
+  '.html': 'text/html',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.webp': 'image/webp',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip'
+};
+
+/**
+ * Result prefixes of browser scripts that report a failed interaction
+ */
+const SCRIPT_FAILURES: { pattern: RegExp; code: ToolErrorCode }[] = [
+  { pattern: /^Ambiguous match/, code: 'ambiguous_match' },
+  { pattern: /^(No element|No input element|No option matched|Element at .* not a (<select>|checkbox))/, code: 'element_not_found' },
+  { pattern: /^Missing required argument|^Radio buttons cannot be unchecked|^Single file input|^Element .* is disabled$/, code: 'invalid_argument' }
+];
+
 /**
  * Safari AppleScript automation client
  *
@@ -61,23 +195,35 @@ const NO_WINDOW_ERROR = 'No Safari window is open. Use an act operation (navigat
 export class Client {
   private automation: Automation;
   private browser: Browser;
+  private executor: Executor;
+  private markerCount: number;
   private pageLoadTimeout: number;
+  private sessions: Map<string, WorkingTab>;
+  private uploadCount: number;
+  private uploadDir: string;
+  private watchCount: number;
   private windowBounds: number;
   private windowHeight: number;
   private windowWidth: number;
-  private workingTab: TabTarget | null;
 
   /**
    * Creates a new Client instance
+   *
+   * @param {Executor} [executor] - Command executor; defaults to the backend selected by `SAFARI_TRANSCRIPT_MODE`
    */
-  constructor() {
+  constructor(executor?: Executor) {
     this.automation = new Automation();
     this.browser = new Browser();
+    this.executor = executor ?? this.createExecutor();
+    this.markerCount = 0;
     this.pageLoadTimeout = parseInt(process.env.SAFARI_PAGE_TIMEOUT || '10000', 10);
+    this.sessions = new Map();
+    this.uploadCount = 0;
+    this.uploadDir = process.env.SAFARI_UPLOAD_DIR || join(homedir(), 'Downloads');
+    this.watchCount = 0;
     this.windowBounds = parseInt(process.env.SAFARI_WINDOW_BOUNDS || '20', 10);
     this.windowHeight = parseInt(process.env.SAFARI_WINDOW_HEIGHT || '1024', 10);
     this.windowWidth = parseInt(process.env.SAFARI_WINDOW_WIDTH || '1280', 10);
-    this.workingTab = null;
   }
 
   /**
@@ -91,6 +237,91 @@ export class Client {
     return this.runExec('osascript', ['-e', script]);
   }
 
+  /**
+   * Raises a ToolError when a browser script reports a failed interaction
+   *
+   * @private
+   * @param {string} result - Browser script result
+   * @returns {string} The result, when it does not report a failure
+   */
+  private checkResult(result: string): string {
+    const failure = SCRIPT_FAILURES.find(({ pattern }) => pattern.test(result));
+    if (failure) {
+      throw new ToolError(failure.code, result);
+    }
+    return result;
+  }
+
+  /**
+   * Makes a tab the working tab of a session and loads or marks it
+   *
+   * With a URL the tab is already navigating; capture is injected while
+   * it loads. Without one the blank tab is marked directly. The session's
+   * previous working tab, if any, gets its `window.name` back.
+   *
+   * @private
+   * @param {string} session - Session name
+   * @param {TabTarget} target - Tab to adopt
+   * @param {number} tabCount - Tab count of the tab's window
+   * @param {string} [url] - URL the tab is navigating to
+   * @returns {Promise<void>}
+   */
+  private async claimTab(session: string, target: TabTarget, tabCount: number, url?: string): Promise<void> {
+    const previous = this.sessions.get(session);
+    if (previous) {
+      try {
+        await this.executeScript(previous, this.browser.unmarkTab(previous.marker));
+      } catch {
+        // The previous tab may be closed or busy; a stale marker matches no session.
+      }
+    }
+    const tab: WorkingTab = { ...target, marker: `safari-mcp:${target.windowId}.${target.index}.${++this.markerCount}`, tabCount, url: url || '' };
+    this.sessions.set(session, tab);
+    if (url) {
+      await this.injectCaptureEarly(tab);
+      await this.waitForPageLoad(tab);
+      await this.injectCapture(tab);
+    } else {
+      try {
+        await this.executeScript(tab, this.browser.markTab(tab.marker));
+      } catch {
+        // Blank tabs may not accept scripts; the first navigation marks the tab.
+      }
+    }
+  }
+
+  /**
+   * Creates the command executor selected by environment variables
+   *
+   * The base executor is the persistent `osascript` worker, or the
+   * process executor when `SAFARI_WORKER` is `false`.
+   * `SAFARI_TRANSCRIPT_MODE` set to `record` wraps the base executor and
+   * writes a transcript to `SAFARI_TRANSCRIPT`; set to `replay` serves the
+   * transcript at `SAFARI_TRANSCRIPT` without spawning any process. Unset
+   * selects the base executor.
+   *
+   * @private
+   * @returns {Executor} Configured executor
+   */
+  private createExecutor(): Executor {
+    const mode = process.env.SAFARI_TRANSCRIPT_MODE || '';
+    const base = process.env.SAFARI_WORKER === 'false' ? new ProcessExecutor() : new WorkerExecutor();
+    if (!mode) {
+      return base;
+    }
+    const path = process.env.SAFARI_TRANSCRIPT;
+    if (!path) {
+      throw new Error(`SAFARI_TRANSCRIPT_MODE=${mode} requires SAFARI_TRANSCRIPT to point at a transcript file`);
+    }
+    if (mode === 'record') {
+      return new RecordingExecutor(base, path);
+    }
+    if (mode === 'replay') {
+      return new ReplayExecutor(path);
+    }
+    throw new Error(`Unsupported SAFARI_TRANSCRIPT_MODE: ${mode} (expected record or replay)`);
+  }
+
   /**
    * Constructs a search URL using the user's configured default search engine
    *
@@ -110,36 +341,41 @@ export class Client {
   }
 
   /**
-   * Injects console error and warning capture into the current page
+   * Injects console error and network capture into the current page
    *
    * Overrides console.error, console.warn, window.onerror, and
-   * unhandledrejection to capture errors with source context.
+   * unhandledrejection to capture errors with source context, and wraps
+   * fetch, XMLHttpRequest, WebSocket, and sendBeacon to record requests.
+   * Both scripts run in a single Safari round trip, which also re-marks
+   * a session's working tab after navigation.
    *
    * @private
    * @param {TabTarget} target - Tab to inject into
    * @returns {Promise<void>}
    */
-  private async injectErrorCapture(target: TabTarget): Promise<void> {
-    await this.executeScript(target, this.browser.errorCapture());
+  private async injectCapture(target: TabTarget): Promise<void> {
+    const working = Array.from(this.sessions.values()).find((tab) => tab.windowId === target.windowId && tab.index === target.index);
+    const marker = working ? `, ${this.browser.markTab(working.marker)}` : '';
+    await this.executeScript(target, `${this.browser.errorCapture()}, ${this.browser.networkCapture()}${marker}`);
   }
 
   /**
-   * Injects error capture early during page load to catch inline script errors
+   * Injects error and network capture early during page load to catch inline script activity
+   *
+   * Each poll checks `document.readyState` and injects in the same round
+   * trip while the page is still loading.
    *
    * @private
    * @param {TabTarget} target - Tab to inject into
    * @returns {Promise<void>}
    */
-  private async injectErrorCaptureEarly(target: TabTarget): Promise<void> {
+  private async injectCaptureEarly(target: TabTarget): Promise<void> {
+    const script = `(function(){if(document.readyState==='complete'){return 'complete';}${this.browser.errorCapture()};${this.browser.networkCapture()};return 'injected';})()`;
     const start = Date.now();
     while (Date.now() - start < this.pageLoadTimeout) {
       try {
-        const state = await this.executeScript(target, 'document.readyState');
-        if (state === 'loading' || state === 'interactive') {
-          await this.executeScript(target, this.browser.errorCapture());
-          return;
-        }
-        if (state === 'complete') {
+        const state = await this.executeScript(target, script);
+        if (state === 'injected' || state === 'complete') {
           return;
         }
       } catch {
@@ -160,6 +396,80 @@ export class Client {
     return this.runExec('osascript', ['-l', 'JavaScript', '-e', script]);
   }
 
+  /**
+   * Re-resolves a session's working tab after tabs may have moved or closed
+   *
+   * Finds the tab by the marker in its `window.name`, falling back to its
+   * last known URL or unchanged position, and re-marks it when the marker
+   * was lost to a cross-site navigation. Updates the remembered index,
+   * URL, and tab count.
+   *
+   * @private
+   * @param {string} session - Session name
+   * @returns {Promise<boolean>} Whether the working tab still exists
+   */
+  private async locateWorkingTab(session: string): Promise<boolean> {
+    const tab = this.sessions.get(session);
+    if (!tab) {
+      return false;
+    }
+    const output = await this.appleScript(this.automation.locateTab(tab.windowId, tab.index, tab.marker, tab.url, tab.tabCount));
+    if (!output) {
+      return false;
+    }
+    const newline = output.indexOf('\n');
+    const [method, windowId, index, tabCount] = (newline === -1 ? output : output.substring(0, newline)).split(',');
+    const url = newline === -1 ? '' : output.substring(newline + 1);
+    const located = { ...tab, windowId: parseInt(windowId, 10), index: parseInt(index, 10), tabCount: parseInt(tabCount, 10), url };
+    this.sessions.set(session, located);
+    if (method !== 'marker') {
+      try {
+        await this.executeScript(located, this.browser.markTab(tab.marker));
+      } catch {
+        // Page does not accept scripts yet; the URL and position fallbacks still apply.
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Parses the output of the pageState template into a page state snapshot
+   *
+   * @private
+   * @param {string} result - Page state JSON and tab list JSON separated by a newline
+   * @returns {PageState} Page state snapshot
+   */
+  private parsePageState(result: string): PageState {
+    const newline = result.indexOf('\n');
+    const page = JSON.parse(result.substring(0, newline));
+    const tabs: PageState['tabs'] = JSON.parse(result.substring(newline + 1));
+    return { ...page, pages: Math.ceil(page.scrollHeight / page.innerHeight), tabs };
+  }
+
+  /**
+   * Enumerates windows and tabs, flagging each session's working tab
+   *
+   * Working tabs are matched at the position recorded by the last act
+   * operation, without re-resolving their markers. Tabs report their
+   * loading state only when a single window is listed, sparing a
+   * JavaScript evaluation in every tab of every window.
+   *
+   * @private
+   * @param {number} [windowId] - Window identifier; enumerates every window when omitted
+   * @returns {Promise<{id: number, tabs: TabInfo[]}[]>} Windows with their tab info, front first
+   */
+  private async readWindows(windowId?: number): Promise<{ id: number; tabs: TabInfo[] }[]> {
+    const windows = JSON.parse(await this.jxa(this.automation.listTabs(windowId, windowId !== undefined))) as { id: number; tabs: Omit<TabInfo, 'working' | 'session'>[] }[];
+    const sessions = Array.from(this.sessions);
+    return windows.map(({ id, tabs }) => ({
+      id,
+      tabs: tabs.map((tab) => {
+        const owner = sessions.find(([, working]) => working.windowId === tab.windowId && working.index === tab.index);
+        return owner ? { ...tab, working: true, session: owner[0] } : { ...tab, working: false };
+      })
+    }));
+  }
+
   /**
    * Resolves the target for an observe operation
    *
@@ -167,32 +477,48 @@ export class Client {
    * getTitle, getUrl). When `index` is omitted, targets the front window's current
    * tab (the user's focus). When `index` is provided, targets that tab in the front
    * window without changing focus. Does not create windows or tabs. Throws if Safari
-   * has no windows open.
+   * has no windows open. When `session` is provided, targets that session's
+   * working tab instead, found again by its marker but not opened when the
+   * session has none.
    *
    * @private
    * @param {number} [index] - Optional tab index in the front window
+   * @param {string} [session] - Session whose working tab to target instead of the front tab
    * @returns {Promise<TabTarget>} The resolved tab target
+   * @throws {ToolError} `invalid_argument` when both `index` and `session` are given or the session has no working tab, `tab_closed` when its tab was closed
    */
-  private async resolveTarget(index?: number): Promise<TabTarget> {
+  private async resolveTarget(index?: number, session?: string): Promise<TabTarget> {
+    if (session !== undefined) {
+      if (index !== undefined) {
+        throw new ToolError('invalid_argument', 'Invalid arguments: provide either index or session, not both');
+      }
+      if (!this.sessions.has(session)) {
+        throw new ToolError('invalid_argument', `Session ${session} has no working tab; an act operation in the session opens one`);
+      }
+      if (!(await this.locateWorkingTab(session))) {
+        throw new ToolError('tab_closed', TAB_CLOSED_ERROR);
+      }
+      const { windowId, index: working } = this.sessions.get(session)!;
+      return { windowId, index: working };
+    }
     if (index !== undefined) {
       const frontId = await this.appleScript(this.automation.frontWindowId());
       if (!frontId) {
-        throw new Error(NO_WINDOW_ERROR);
+        throw new ToolError('no_window', NO_WINDOW_ERROR);
       }
       return { windowId: parseInt(frontId, 10), index };
     }
     const result = await this.appleScript(this.automation.frontWindowAndTab());
     if (!result) {
-      throw new Error(NO_WINDOW_ERROR);
+      throw new ToolError('no_window', NO_WINDOW_ERROR);
     }
     const [windowId, currentIndex] = result.split(',').map((n) => parseInt(n, 10));
     return { windowId, index: currentIndex };
   }
 
   /**
-   * Executes a child process and returns trimmed stdout
+   * Executes a command through the configured executor and returns stdout
    *
-   * Wraps the callback-based `execFile` in a promise with a 50MB buffer.
    * Used as the foundation for `appleScript`, `jxa`, and any other shell
    * invocation. Trimming the output is opt-in via the `trim` flag.
    *
@@ -200,29 +526,26 @@ export class Client {
    * @param {string} cmd - Command to execute
    * @param {string[]} args - Command arguments
    * @param {boolean} [trim=true] - Whether to trim trailing whitespace from stdout
+   * @param {string} [output] - File path the command writes to, recorded alongside stdout
    * @returns {Promise<string>} Process stdout
    */
-  private async runExec(cmd: string, args: string[], trim: boolean = true): Promise<string> {
-    return new Promise((resolve, reject) => {
-      execFile(cmd, args, { maxBuffer: 50 * 1024 * 1024 }, (error, stdout) => {
-        if (error) {
-          reject(new Error(error.message));
-          return;
-        }
-        resolve(trim ? stdout.trim() : stdout);
-      });
-    });
+  private async runExec(cmd: string, args: string[], trim: boolean = true, output?: string): Promise<string> {
+    const stdout = await this.executor.run(cmd, args, output);
+    return trim ? stdout.trim() : stdout;
   }
 
   /**
    * Runs `screencapture` with the given arguments
    *
+   * The last argument is the image path, declared to the executor so the
+   * captured file travels with recorded transcripts.
+   *
    * @private
    * @param {string[]} args - Arguments to pass to `screencapture`
    * @returns {Promise<void>}
    */
   private async screenshotCapture(args: string[]): Promise<void> {
-    await this.runExec('screencapture', args);
+    await this.runExec('screencapture', args, true, args[args.length - 1]);
   }
 
   /**
@@ -243,7 +566,7 @@ export class Client {
     const initialInspect = await this.executeScript(target, this.browser.inspect(selector));
     const initialParsed = JSON.parse(initialInspect) as { found: boolean; rect?: { x: number; y: number; width: number; height: number } };
     if (!initialParsed.found || !initialParsed.rect) {
-      throw new Error(`Element not found for selector: ${selector}`);
+      throw new ToolError('element_not_found', `Element not found for selector: ${selector}`);
     }
     const originalOffsetRaw = await this.executeScript(target, 'window.scrollY');
     const originalOffset = parseInt(originalOffsetRaw, 10) || 0;
@@ -253,7 +576,7 @@ export class Client {
       const inspectResult = await this.executeScript(target, this.browser.inspect(selector));
       const parsed = JSON.parse(inspectResult) as { found: boolean; rect?: { x: number; y: number; width: number; height: number } };
       if (!parsed.found || !parsed.rect) {
-        throw new Error(`Element not found after scroll for selector: ${selector}`);
+        throw new ToolError('element_not_found', `Element not found after scroll for selector: ${selector}`);
       }
       const geometryRaw = await this.executeScript(target, this.browser.scrollGeometry());
       const geometry = JSON.parse(geometryRaw) as { innerHeight: number; devicePixelRatio: number };
@@ -488,56 +811,114 @@ export class Client {
   }
 
   /**
-   * Waits for a page to finish loading by polling document.readyState and document.title
+   * Resolves the tab a window, element, or page screenshot captures
    *
-   * Two phases. First waits for readyState to reach 'complete'. Then waits for
-   * document.title to be non-empty and stable across two consecutive reads.
-   * The title phase covers SPAs that reach readyState=complete before their
-   * router has rendered and set the document title.
+   * A session's working tab is made the current tab of its window first,
+   * since a window capture shows only the current tab.
    *
    * @private
-   * @param {TabTarget} target - Tab to poll
-   * @returns {Promise<void>}
+   * @param {string} [session] - Session whose working tab to capture instead of the front tab
+   * @returns {Promise<TabTarget>} The tab to capture
+   */
+  private async screenshotTarget(session?: string): Promise<TabTarget> {
+    const target = await this.resolveTarget(undefined, session);
+    if (session !== undefined) {
+      await this.appleScript(this.automation.setCurrentTab(target.windowId, target.index));
+    }
+    return target;
+  }
+
+  /**
+   * Re-resolves the sessions and returns those with a working tab in a window
+   *
+   * @private
+   * @param {number} windowId - Window identifier
+   * @returns {Promise<string[]>} Names of the sessions whose working tab is in the window
+   */
+  private async sessionsInWindow(windowId: number): Promise<string[]> {
+    for (const name of Array.from(this.sessions.keys())) {
+      await this.locateWorkingTab(name);
+    }
+    return Array.from(this.sessions.keys()).filter((name) => this.sessions.get(name)!.windowId === windowId);
+  }
+
+  /**
+   * Waits for a condition through an in-page watcher
+   *
+   * Installs the watcher with the first call and then only reads its result
+   * slot, polling with backoff from 100ms up to 1s instead of evaluating the
+   * condition on a fixed interval. A wait of several seconds therefore costs
+   * a handful of `osascript` round trips rather than one per 100ms. Network
+   * capture is injected with the first call for `networkIdle`, so tabs the
+   * client did not load start their quiet window from that moment.
+   *
+   * @private
+   * @param {TabTarget} target - Tab to watch
+   * @param {WatchCondition} condition - Condition to wait for
+   * @param {number} timeout - Maximum time to wait in milliseconds
+   * @returns {Promise<{matched: boolean, polls: number}>} Whether the condition was met and the round trips spent
    */
-  private async waitForPageLoad(target: TabTarget): Promise<void> {
+  private async waitFor(target: TabTarget, condition: WatchCondition, timeout: number): Promise<{ matched: boolean; polls: number }> {
+    const id = `w${++this.watchCount}`;
+    const watch = this.browser.watch(id, condition, timeout + 1000);
     const start = Date.now();
-    let state = '';
-    while (state !== 'complete' && Date.now() - start < this.pageLoadTimeout) {
-      state = await this.executeScript(target, 'document.readyState');
-      if (state !== 'complete') {
-        await new Promise((resolve) => setTimeout(resolve, 100));
+    let delay = 100;
+    let polls = 0;
+    while (true) {
+      const script = polls === 0 && condition.kind === 'networkIdle' ? `${this.browser.networkCapture()}, ${watch}` : watch;
+      polls++;
+      if (await this.executeScript(target, script) === 'true') {
+        return { matched: true, polls };
       }
-    }
-    let lastTitle = '';
-    while (Date.now() - start < this.pageLoadTimeout) {
-      const title = await this.executeScript(target, 'document.title');
-      if (title !== '' && title === lastTitle) {
-        return;
+      const remaining = timeout - (Date.now() - start);
+      if (remaining <= 0) {
+        return { matched: false, polls };
       }
-      lastTitle = title;
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      await new Promise((resolve) => setTimeout(resolve, Math.min(delay, remaining)));
+      delay = Math.min(delay * 2, 1000);
     }
   }
 
+  /**
+   * Waits for a page to finish loading
+   *
+   * Waits for readyState to reach 'complete' and for document.title to be
+   * non-empty and unchanged for 100ms. The title check covers SPAs that
+   * reach readyState=complete before their router has rendered and set the
+   * document title.
+   *
+   * @private
+   * @param {TabTarget} target - Tab to watch
+   * @returns {Promise<boolean>} Whether the page loaded within pageLoadTimeout
+   */
+  private async waitForPageLoad(target: TabTarget): Promise<boolean> {
+    const { matched } = await this.waitFor(target, { kind: 'pageLoad' }, this.pageLoadTimeout);
+    return matched;
+  }
+
   /**
    * Waits for an element matching a CSS selector to appear on the page
    *
    * @private
-   * @param {TabTarget} target - Tab to poll
+   * @param {TabTarget} target - Tab to watch
    * @param {string} selector - CSS selector to wait for
    * @returns {Promise<boolean>} Whether the element was found within pageLoadTimeout
    */
   private async waitForSelector(target: TabTarget, selector: string): Promise<boolean> {
-    const escaped = this.escapeForJs(selector);
-    const start = Date.now();
-    while (Date.now() - start < this.pageLoadTimeout) {
-      const found = await this.executeScript(target, `document.querySelector('${escaped}') !== null`);
-      if (found === 'true') {
-        return true;
-      }
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
-    return false;
+    const { matched } = await this.waitFor(target, { kind: 'selector', selector }, this.pageLoadTimeout);
+    return matched;
+  }
+
+  /**
+   * Clears captured network requests on a tab in the front window
+   *
+   * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
+   * @returns {Promise<number>} Number of entries removed
+   */
+  async clearNetwork(index?: number, session?: string): Promise<number> {
+    const target = await this.resolveTarget(index, session);
+    return parseInt(await this.executeScript(target, this.browser.networkClear()), 10) || 0;
   }
 
   /**
@@ -548,10 +929,11 @@ export class Client {
    * @param {string} [wait] - CSS selector to wait for after click
    * @param {number} [x] - X coordinate (pixels from left of viewport)
    * @param {number} [y] - Y coordinate (pixels from top of viewport)
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<{result: string, selectorFound?: boolean}>} Click result with optional wait status
    */
-  async clickElement(selector?: string, text?: string, wait?: string, x?: number, y?: number): Promise<{ result: string; selectorFound?: boolean }> {
-    const target = await this.getCurrentTab();
+  async clickElement(selector?: string, text?: string, wait?: string, x?: number, y?: number, session?: string): Promise<{ result: string; selectorFound?: boolean }> {
+    const target = await this.getCurrentTab(session);
     let script: string;
     if (text && selector) {
       script = this.browser.clickSelector(text, selector);
@@ -562,7 +944,7 @@ export class Client {
     } else {
       script = this.browser.clickDirect(selector!);
     }
-    const result = await this.executeScript(target, script);
+    const result = this.checkResult(await this.executeScript(target, script));
     await new Promise((resolve) => setTimeout(resolve, 500));
     if (wait) {
       const selectorFound = await this.waitForSelector(target, wait);
@@ -572,34 +954,142 @@ export class Client {
   }
 
   /**
-   * Closes a tab by index in the front window
+   * Closes a tab by index in a window
    *
    * @param {number} index - Tab index (1-based)
+   * @param {number} [windowId] - Window identifier; defaults to the front window
+   * @returns {Promise<void>}
+   */
+  async closeTab(index: number, windowId?: number): Promise<void> {
+    const targetId = windowId ?? (await this.resolveTarget()).windowId;
+    const affected = await this.sessionsInWindow(targetId);
+    await this.appleScript(this.automation.closeTab(targetId, index));
+    for (const name of affected) {
+      const tab = this.sessions.get(name)!;
+      if (tab.index === index) {
+        this.sessions.delete(name);
+      } else {
+        this.sessions.set(name, { ...tab, index: tab.index > index ? tab.index - 1 : tab.index, tabCount: tab.tabCount - 1 });
+      }
+    }
+  }
+
+  /**
+   * Closes a whole window, ending the sessions whose working tabs it holds
+   *
+   * @param {number} windowId - Window identifier
    * @returns {Promise<void>}
    */
-  async closeTab(index: number): Promise<void> {
-    const target = await this.resolveTarget();
-    await this.appleScript(this.automation.closeTab(target.windowId, index));
-    if (this.workingTab && this.workingTab.windowId === target.windowId && this.workingTab.index === index) {
-      this.workingTab = null;
+  async closeWindow(windowId: number): Promise<void> {
+    const affected = await this.sessionsInWindow(windowId);
+    await this.appleScript(this.automation.closeWindow(windowId));
+    for (const name of affected) {
+      this.sessions.delete(name);
     }
   }
 
   /**
-   * Closes the working tab if any, dropping the working tab reference
+   * Closes a session's working tab if any, ending the session
    *
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<void>}
    */
-  async closeWorkingTab(): Promise<void> {
-    if (!this.workingTab) {
+  async closeWorkingTab(session: string = DEFAULT_SESSION): Promise<void> {
+    if (!this.sessions.has(session)) {
       return;
     }
     try {
-      await this.appleScript(this.automation.closeTab(this.workingTab.windowId, this.workingTab.index));
+      if (await this.locateWorkingTab(session)) {
+        const tab = this.sessions.get(session)!;
+        await this.appleScript(this.automation.closeTab(tab.windowId, tab.index));
+      }
     } catch {
       // Tab may already be closed by the user; drop the reference unconditionally below.
     }
-    this.workingTab = null;
+    this.sessions.delete(session);
+  }
+
+  /**
+   * Probes the macOS and Safari prerequisites and reports actionable diagnoses
+   *
+   * Checks the "Prefer tabs" setting, Screen Recording permission (read
+   * through `CGPreflightScreenCaptureAccess`, reported as `unknown` when
+   * unreadable), Automation permission for Safari, and "Allow JavaScript
+   * from Apple Events" (evaluated on the front tab). Failures are
+   * classified from the `osascript` error text. Also reports the Safari
+   * version, window count, and default search engine detection.
+   *
+   * @param {boolean} [passive=false] - Skip probes that would launch Safari when it is not running
+   * @returns {Promise<DoctorReport>} Prerequisite checks and environment details
+   */
+  async diagnose(passive: boolean = false): Promise<DoctorReport> {
+    const checks: DoctorCheck[] = [];
+    const probe = async (name: DoctorCheck['name'], run: () => Promise<Pick<DoctorCheck, 'status' | 'detail'>>): Promise<boolean> => {
+      try {
+        const { status, detail } = await run();
+        checks.push(status === 'fail' ? { name, status, detail, fix: DOCTOR_FIXES[name] } : { name, status, detail });
+        return status === 'pass';
+      } catch (error) {
+        const cause = ToolError.from(error);
+        checks.push({ name, status: 'fail', detail: cause.message, code: cause.code, fix: DOCTOR_FIXES[name] });
+        return false;
+      }
+    };
+    await probe('tabs', async () => {
+      const mode = await this.runExec('defaults', ['read', '-g', 'AppleWindowTabbingMode']).catch(() => '');
+      return mode === 'always' ? { status: 'pass', detail: 'Prefer tabs is set to Always' } : { status: 'fail', detail: `Prefer tabs is set to ${mode || 'the default (in full screen)'}` };
+    });
+    await probe('screenRecording', async () => {
+      let granted;
+      try {
+        granted = (await this.jxa(this.automation.screenCaptureAccess())) === 'true';
+      } catch (error) {
+        return { status: 'unknown', detail: `Screen Recording permission is unreadable: ${ToolError.from(error).message}` };
+      }
+      return granted ? { status: 'pass', detail: 'Screen Recording permission is granted' } : { status: 'fail', detail: 'Screen Recording permission is not granted' };
+    });
+    const safariRunning = await this.appleScript(this.automation.safariRunning()).then((r) => r === 'true', () => false);
+    let windows = 0;
+    const automation = await probe('automation', async () => {
+      if (passive && !safariRunning) {
+        return { status: 'skip', detail: 'Safari is not running' };
+      }
+      windows = parseInt(await this.appleScript(this.automation.windowCount()), 10) || 0;
+      return { status: 'pass', detail: `Safari responded with ${windows} open window(s)` };
+    });
+    await probe('javascript', async () => {
+      if (!automation || windows === 0) {
+        return { status: 'skip', detail: automation ? 'No Safari window is open' : 'Automation check did not pass' };
+      }
+      const target = await this.resolveTarget();
+      await this.executeScript(target, "'ok'");
+      return { status: 'pass', detail: 'JavaScript evaluated in the front tab' };
+    });
+    const safariVersion = await this.runExec('defaults', ['read', '/Applications/Safari.app/Contents/Info', 'CFBundleShortVersionString']).catch(() => '');
+    let searchEngine: DoctorReport['searchEngine'];
+    try {
+      searchEngine = { detected: true, detail: new URL(await this.getSearchUrl('')).host };
+    } catch (error) {
+      searchEngine = { detected: false, detail: (error as Error).message };
+    }
+    const ok = checks.every((check) => check.status !== 'fail');
+    return { ok, checks, safariRunning, safariVersion, windows, searchEngine };
+  }
+
+  /**
+   * Drags from one element or point to another on the working tab
+   *
+   * @param {DragPoint} from - Drag source
+   * @param {DragPoint} to - Drop target
+   * @param {number} [steps] - Number of pointer moves between source and target
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<{source: string, target: string, from: {x: number, y: number}, to: {x: number, y: number}, dropped: boolean}>} Resolved endpoints and whether a drop handler accepted the drop
+   */
+  async drag(from: DragPoint, to: DragPoint, steps: number = 5, session?: string): Promise<{ source: string; target: string; from: { x: number; y: number }; to: { x: number; y: number }; dropped: boolean }> {
+    const target = await this.getCurrentTab(session);
+    const result = this.checkResult(await this.executeScript(target, this.browser.drag(from, to, steps)));
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    return JSON.parse(result);
   }
 
   /**
@@ -630,14 +1120,31 @@ export class Client {
     return await this.appleScript(this.automation.executeScript(target.windowId, target.index, wrapped));
   }
 
+  /**
+   * Sets the values of many form fields on the working tab in one script
+   *
+   * Fields are filled in order; a field that fails does not stop the
+   * remaining ones.
+   *
+   * @param {{field: string, value: string | number | boolean}[]} fields - Field identifiers with their values
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<FillResult[]>} Per-field outcome with the resolved element
+   */
+  async fillForm(fields: { field: string; value: string | number | boolean }[], session?: string): Promise<FillResult[]> {
+    const target = await this.getCurrentTab(session);
+    const result = await this.executeScript(target, this.browser.fill(fields));
+    return JSON.parse(this.checkResult(result)) as FillResult[];
+  }
+
   /**
    * Gets captured console errors and warnings from a tab in the front window
    *
    * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
    * @returns {Promise<{errors: string[], warnings: string[]}>} Captured errors and warnings
    */
-  async getConsoleErrors(index?: number): Promise<{ errors: string[]; warnings: string[] }> {
-    const target = await this.resolveTarget(index);
+  async getConsoleErrors(index?: number, session?: string): Promise<{ errors: string[]; warnings: string[] }> {
+    const target = await this.resolveTarget(index, session);
     const result = await this.executeScript(target, this.browser.consoleErrors());
     try {
       return JSON.parse(result);
@@ -647,54 +1154,150 @@ export class Client {
   }
 
   /**
-   * Returns the working tab, creating it if absent or if the prior one was closed
+   * Returns a session's working tab, creating it if none is remembered
    *
    * Called by every act operation (navigate, click, type, scroll, refresh, execute).
-   * Activates Safari, ensures a window exists, opens a new tab if no working tab is
-   * remembered or the remembered one is gone, and returns the (windowId, index) pair.
-   * After ensuring the tab, the tab is set as the current tab of its window so the
-   * user sees what is being acted on.
+   * Opens a new tab if the session has no working tab. Otherwise re-resolves the
+   * remembered tab by its page marker, so reordering or closing other tabs does not
+   * redirect the operation, and throws a `tab_closed` error when the tab itself is
+   * gone; the following call then opens a new working tab. The tab is set as the
+   * current tab of its window so the user sees what is being acted on.
    *
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<TabTarget>} The active working tab
    */
-  async getCurrentTab(): Promise<TabTarget> {
-    if (this.workingTab) {
-      const exists = await this.appleScript(this.automation.tabExists(this.workingTab.windowId, this.workingTab.index));
-      if (exists !== 'true') {
-        this.workingTab = null;
-      }
-    }
-    if (!this.workingTab) {
-      await this.openTab();
+  async getCurrentTab(session: string = DEFAULT_SESSION): Promise<TabTarget> {
+    if (!this.sessions.has(session)) {
+      await this.openTab(undefined, session);
+    } else if (!(await this.locateWorkingTab(session))) {
+      this.sessions.delete(session);
+      throw new ToolError('tab_closed', TAB_CLOSED_ERROR);
     }
-    if (!this.workingTab) {
+    const tab = this.sessions.get(session);
+    if (!tab) {
       throw new Error('Failed to establish a working tab');
     }
-    await this.appleScript(this.automation.setCurrentTab(this.workingTab.windowId, this.workingTab.index));
-    return this.workingTab;
+    await this.appleScript(this.automation.setCurrentTab(tab.windowId, tab.index));
+    return tab;
   }
 
   /**
    * Gets page dimensions and calculates the number of viewport pages
    *
    * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
    * @returns {Promise<{innerHeight: number, scrollHeight: number, scrollOffset: number, pages: number}>} Page dimension info
    */
-  async getPageInfo(index?: number): Promise<{ innerHeight: number; scrollHeight: number; scrollOffset: number; pages: number }> {
-    const target = await this.resolveTarget(index);
+  async getPageInfo(index?: number, session?: string): Promise<{ innerHeight: number; scrollHeight: number; scrollOffset: number; pages: number }> {
+    const target = await this.resolveTarget(index, session);
     const result = await this.executeScript(target, this.browser.pageInfo());
     const { innerHeight, scrollHeight, scrollOffset } = JSON.parse(result);
     return { innerHeight, scrollHeight, scrollOffset, pages: Math.ceil(scrollHeight / innerHeight) };
   }
 
+  /**
+   * Gets captured network requests from a tab in the front window
+   *
+   * Filters by URL (case-insensitive substring, or a regular expression when
+   * wrapped in slashes) and by status (exact code such as `404`, a class such
+   * as `4xx`, or `failed` for requests without a successful response).
+   * Request and response bodies are omitted unless `bodies` is true.
+   *
+   * @param {object} [opts] - Filter options
+   * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
+   * @returns {Promise<{requests: NetworkEntry[], total: number, pending: number}>} Matching requests with log totals
+   */
+  async getNetwork(opts: { bodies?: boolean; status?: string; url?: string } = {}, index?: number, session?: string): Promise<{ requests: NetworkEntry[]; total: number; pending: number }> {
+    const target = await this.resolveTarget(index, session);
+    const result = await this.executeScript(target, this.browser.networkLog());
+    let log: { entries: NetworkEntry[]; pending: number };
+    try {
+      log = JSON.parse(result);
+    } catch {
+      log = { entries: [], pending: 0 };
+    }
+    let matchUrl: (url: string) => boolean = () => true;
+    if (opts.url) {
+      const pattern = opts.url;
+      let regex: RegExp | null = null;
+      if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+        try {
+          regex = new RegExp(pattern.slice(1, -1), 'i');
+        } catch (error) {
+          throw new ToolError('invalid_argument', `Invalid URL pattern ${pattern}: ${(error as Error).message}`);
+        }
+      }
+      matchUrl = regex ? (url) => regex.test(url) : (url) => url.toLowerCase().includes(pattern.toLowerCase());
+    }
+    let matchStatus: (entry: NetworkEntry) => boolean = () => true;
+    if (opts.status) {
+      const status = opts.status.trim().toLowerCase();
+      if (status === 'failed') {
+        matchStatus = (entry) => entry.error !== undefined || (entry.status !== undefined && entry.status >= 400);
+      } else if (/^[1-5]xx$/.test(status)) {
+        matchStatus = (entry) => entry.status !== undefined && Math.floor(entry.status / 100) === parseInt(status[0], 10);
+      } else {
+        matchStatus = (entry) => String(entry.status) === status;
+      }
+    }
+    const requests = log.entries
+      .filter((entry) => matchUrl(entry.url) && matchStatus(entry))
+      .map((entry) => {
+        if (opts.bodies) {
+          return entry;
+        }
+        const { requestBody, responseBody, ...rest } = entry;
+        return rest;
+      });
+    return { requests, total: log.entries.length, pending: log.pending };
+  }
+
+  /**
+   * Captures the page state of a tab in the front window in one round trip
+   *
+   * Combines title, URL, page dimensions, focused element, open dialog
+   * count, element count, DOM fingerprint, and the window's tab list,
+   * without a separate target lookup.
+   *
+   * @param {number} [index] - Optional tab index; defaults to current tab
+   * @returns {Promise<PageState>} Page state snapshot
+   */
+  async getPageState(index?: number): Promise<PageState> {
+    const result = await this.jxa(this.automation.pageState(this.browser.pageState(), index));
+    if (!result) {
+      throw new ToolError('no_window', NO_WINDOW_ERROR);
+    }
+    return this.parsePageState(result);
+  }
+
+  /**
+   * Captures the page state of a session's working tab in one round trip
+   *
+   * Like getPageState, but addresses the working tab in its own window so
+   * concurrent sessions compare their own tabs. Does not open a tab.
+   *
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<PageState | null>} Page state snapshot, or null when the session has no working tab
+   */
+  async getSessionState(session: string = DEFAULT_SESSION): Promise<PageState | null> {
+    if (!(await this.locateWorkingTab(session))) {
+      return null;
+    }
+    const tab = this.sessions.get(session)!;
+    const result = await this.jxa(this.automation.pageState(this.browser.pageState(), tab.index, tab.windowId));
+    return result ? this.parsePageState(result) : null;
+  }
+
   /**
    * Gets the title of a tab in the front window
    *
    * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
    * @returns {Promise<string>} Tab title
    */
-  async getTitle(index?: number): Promise<string> {
-    const target = await this.resolveTarget(index);
+  async getTitle(index?: number, session?: string): Promise<string> {
+    const target = await this.resolveTarget(index, session);
     return await this.appleScript(this.automation.getTitle(target.windowId, target.index));
   }
 
@@ -702,10 +1305,11 @@ export class Client {
    * Gets the URL of a tab in the front window
    *
    * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
    * @returns {Promise<string>} Tab URL
    */
-  async getUrl(index?: number): Promise<string> {
-    const target = await this.resolveTarget(index);
+  async getUrl(index?: number, session?: string): Promise<string> {
+    const target = await this.resolveTarget(index, session);
     return await this.appleScript(this.automation.getUrl(target.windowId, target.index));
   }
 
@@ -730,14 +1334,15 @@ export class Client {
    *
    * @param {number} steps - Number of steps (negative for back, positive for forward)
    * @param {string} [selector] - CSS selector to wait for after page load
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<boolean>} Whether the selector was found (true if no selector specified)
    */
-  async goHistory(steps: number, selector?: string): Promise<boolean> {
-    const target = await this.getCurrentTab();
+  async goHistory(steps: number, selector?: string, session?: string): Promise<boolean> {
+    const target = await this.getCurrentTab(session);
     await this.executeScript(target, `history.go(${steps})`);
-    await this.injectErrorCaptureEarly(target);
+    await this.injectCaptureEarly(target);
     await this.waitForPageLoad(target);
-    await this.injectErrorCapture(target);
+    await this.injectCapture(target);
     if (selector) {
       return await this.waitForSelector(target, selector);
     }
@@ -749,12 +1354,13 @@ export class Client {
    *
    * @param {string} [selector] - CSS selector for the target element
    * @param {string} [text] - Visible text to match
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<string>} Description of the action taken
    */
-  async hover(selector?: string, text?: string): Promise<string> {
-    const target = await this.getCurrentTab();
+  async hover(selector?: string, text?: string, session?: string): Promise<string> {
+    const target = await this.getCurrentTab(session);
     const script = this.browser.hover(selector, text);
-    const result = await this.executeScript(target, script);
+    const result = this.checkResult(await this.executeScript(target, script));
     await new Promise((resolve) => setTimeout(resolve, 300));
     return result;
   }
@@ -764,10 +1370,11 @@ export class Client {
    *
    * @param {string} selector - CSS selector for the target element
    * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
    * @returns {Promise<object>} Element descriptor including tag, text, visibility, attributes, rect
    */
-  async inspect(selector: string, index?: number): Promise<Record<string, unknown>> {
-    const target = await this.resolveTarget(index);
+  async inspect(selector: string, index?: number, session?: string): Promise<Record<string, unknown>> {
+    const target = await this.resolveTarget(index, session);
     const result = await this.executeScript(target, this.browser.inspect(selector));
     try {
       return JSON.parse(result);
@@ -781,12 +1388,13 @@ export class Client {
    *
    * @param {string} key - Key name (e.g., 'Escape', 'ArrowRight', 'Enter')
    * @param {string} [selector] - CSS selector for target element
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<string>} Description of the action taken
    */
-  async keypress(key: string, selector?: string): Promise<string> {
-    const target = await this.getCurrentTab();
+  async keypress(key: string, selector?: string, session?: string): Promise<string> {
+    const target = await this.getCurrentTab(session);
     const script = this.browser.keypress(key, selector);
-    const result = await this.executeScript(target, script);
+    const result = this.checkResult(await this.executeScript(target, script));
     await new Promise((resolve) => setTimeout(resolve, 300));
     return result;
   }
@@ -797,34 +1405,81 @@ export class Client {
    * Non-throwing variant of listTabs for environment introspection. Returns
    * an empty array when Safari has no windows open instead of throwing.
    *
-   * @returns {Promise<{index: number, title: string, url: string, active: boolean}[]>} Array of tab info or empty array
+   * @returns {Promise<TabInfo[]>} Array of tab info or empty array
    */
-  async listFrontTabs(): Promise<{ active: boolean; index: number; title: string; url: string }[]> {
-    const frontId = await this.appleScript(this.automation.frontWindowId());
-    if (!frontId) {
-      return [];
+  async listFrontTabs(): Promise<TabInfo[]> {
+    const windows = await this.readWindows();
+    return windows.length > 0 ? windows[0].tabs : [];
+  }
+
+  /**
+   * Lists the named sessions with the location of their working tabs
+   *
+   * Re-resolves each working tab, so indexes and URLs reflect tabs moved
+   * or navigated since the last act operation.
+   *
+   * @returns {Promise<{name: string, closed: boolean, index: number, url: string, windowId: number}[]>} Sessions sorted by name
+   */
+  async listSessions(): Promise<{ name: string; closed: boolean; index: number; url: string; windowId: number }[]> {
+    const sessions: { name: string; closed: boolean; index: number; url: string; windowId: number }[] = [];
+    for (const name of Array.from(this.sessions.keys()).sort()) {
+      const closed = !(await this.locateWorkingTab(name).catch(() => false));
+      const { index, url, windowId } = this.sessions.get(name)!;
+      sessions.push({ name, closed, index, url, windowId });
     }
-    const result = await this.appleScript(this.automation.listTabs(parseInt(frontId, 10)));
-    try {
-      return JSON.parse(result);
-    } catch {
-      return [];
+    return sessions;
+  }
+
+  /**
+   * Lists all tabs in a window
+   *
+   * @param {number} [windowId] - Window identifier; defaults to the front window
+   * @returns {Promise<TabInfo[]>} Array of tab info
+   */
+  async listTabs(windowId?: number): Promise<TabInfo[]> {
+    const targetId = windowId ?? (await this.resolveTarget()).windowId;
+    const windows = await this.readWindows(targetId);
+    if (windows.length === 0) {
+      throw new ToolError('no_window', `Safari window ${targetId} is not open`);
     }
+    return windows[0].tabs;
   }
 
   /**
-   * Lists all tabs in the front window
+   * Lists every Safari window with its tabs, front window first
    *
-   * @returns {Promise<{index: number, title: string, url: string, active: boolean}[]>} Array of tab info
+   * @returns {Promise<{id: number, tabs: TabInfo[]}[]>} Windows with their tab info
    */
-  async listTabs(): Promise<{ active: boolean; index: number; title: string; url: string }[]> {
-    const target = await this.resolveTarget();
-    const result = await this.appleScript(this.automation.listTabs(target.windowId));
-    try {
-      return JSON.parse(result);
-    } catch {
-      return [];
+  async listWindows(): Promise<{ id: number; tabs: TabInfo[] }[]> {
+    return await this.readWindows();
+  }
+
+  /**
+   * Moves a tab to the end of another window
+   *
+   * Sessions whose working tab moves follow it to the destination window.
+   *
+   * @param {number} index - Tab index in the source window (1-based)
+   * @param {number} targetWindowId - Destination window identifier
+   * @param {number} [windowId] - Source window identifier; defaults to the front window
+   * @returns {Promise<number>} The tab's index in the destination window
+   */
+  async moveTab(index: number, targetWindowId: number, windowId?: number): Promise<number> {
+    if (windowId === undefined) {
+      windowId = (await this.resolveTarget()).windowId;
+    }
+    await this.sessionsInWindow(windowId);
+    const moved = parseInt(await this.appleScript(this.automation.moveTab(windowId, index, targetWindowId)), 10);
+    for (const [name, tab] of Array.from(this.sessions)) {
+      if (tab.windowId === windowId && tab.index === index) {
+        this.sessions.set(name, { ...tab, windowId: targetWindowId, index: moved, tabCount: moved });
+      } else if (tab.windowId === windowId) {
+        this.sessions.set(name, { ...tab, index: tab.index > index ? tab.index - 1 : tab.index, tabCount: tab.tabCount - 1 });
+      } else if (tab.windowId === targetWindowId) {
+        this.sessions.set(name, { ...tab, tabCount: moved });
+      }
     }
+    return moved;
   }
 
   /**
@@ -832,14 +1487,25 @@ export class Client {
    *
    * @param {string} url - URL to navigate to
    * @param {string} [selector] - CSS selector to wait for after page load
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<boolean>} Whether the selector was found (true if no selector specified)
    */
-  async navigateTo(url: string, selector?: string): Promise<boolean> {
-    const target = await this.getCurrentTab();
-    await this.appleScript(this.automation.setTabUrl(target.windowId, target.index, url));
-    await this.injectErrorCaptureEarly(target);
-    await this.waitForPageLoad(target);
-    await this.injectErrorCapture(target);
+  async navigateTo(url: string, selector?: string, session?: string): Promise<boolean> {
+    const target = await this.getCurrentTab(session);
+    try {
+      await this.appleScript(this.automation.setTabUrl(target.windowId, target.index, url));
+    } catch (error) {
+      const cause = ToolError.from(error);
+      throw cause.code === 'unknown' ? new ToolError('navigation_failed', `Failed to navigate to ${url}: ${cause.message}`) : cause;
+    }
+    await this.injectCaptureEarly(target);
+    if (!await this.waitForPageLoad(target)) {
+      const href = await this.executeScript(target, 'location.href');
+      if (!href || href === 'about:blank') {
+        throw new ToolError('navigation_failed', `Page did not load within ${this.pageLoadTimeout}ms: ${url}`);
+      }
+    }
+    await this.injectCapture(target);
     if (selector) {
       return await this.waitForSelector(target, selector);
     }
@@ -849,31 +1515,49 @@ export class Client {
   /**
    * Opens a new tab as the working target
    *
-   * If no Safari window is open, creates a window and adopts its first
-   * tab as the working tab. If a window is already open, adds a new tab
-   * to the front window.
+   * If no Safari window is open, creates a window sized from the
+   * `SAFARI_WINDOW_*` settings and adopts its first tab as the working tab.
+   * If a window is already open, adds a new tab to the given or front window.
+   * The tab is marked through `window.name` so later act operations find
+   * it after other tabs are reordered or closed. A session that already
+   * has a working tab moves to the new tab; its previous tab stays open.
    *
    * @param {string} [url] - URL to open in the new tab
+   * @param {string} [session] - Session name; defaults to the default session
+   * @param {number} [windowId] - Window to add the tab to; defaults to the front window
    * @returns {Promise<void>}
    */
-  async openTab(url?: string): Promise<void> {
-    const frontId = await this.appleScript(this.automation.frontWindowId());
+  async openTab(url?: string, session: string = DEFAULT_SESSION, windowId?: number): Promise<void> {
+    const frontId = windowId === undefined ? await this.appleScript(this.automation.frontWindowId()) : String(windowId);
     if (frontId === '') {
-      const windowId = parseInt(await this.appleScript(this.automation.ensureWindow()), 10);
-      this.workingTab = { windowId, index: 1 };
-      if (url) {
-        await this.appleScript(this.automation.setTabUrl(windowId, 1, url));
-      }
-    } else {
-      const windowId = parseInt(frontId, 10);
-      const tabIndex = parseInt(await this.appleScript(this.automation.createTab(windowId, url)), 10);
-      this.workingTab = { windowId, index: tabIndex };
+      await this.openWindow(url, false, session);
+      return;
     }
+    const targetId = parseInt(frontId, 10);
+    const [index, tabCount] = (await this.appleScript(this.automation.createTab(targetId, url))).split(',').map((n) => parseInt(n, 10));
+    await this.claimTab(session, { windowId: targetId, index }, tabCount, url);
+  }
+
+  /**
+   * Opens a new window whose tab becomes the working target
+   *
+   * The window is sized from the `SAFARI_WINDOW_*` settings. A private
+   * window needs the Accessibility permission for the keyboard shortcut
+   * that opens it.
+   *
+   * @param {string} [url] - URL to open in the new window
+   * @param {boolean} [privateWindow=false] - Whether to open a private window
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<number>} The new window id
+   */
+  async openWindow(url?: string, privateWindow: boolean = false, session: string = DEFAULT_SESSION): Promise<number> {
+    const windowId = parseInt(await this.appleScript(this.automation.newWindow(privateWindow)), 10);
+    await this.appleScript(this.automation.setBounds(windowId, this.windowBounds, this.windowBounds, this.windowWidth, this.windowHeight));
     if (url) {
-      await this.injectErrorCaptureEarly(this.workingTab);
-      await this.waitForPageLoad(this.workingTab);
-      await this.injectErrorCapture(this.workingTab);
+      await this.appleScript(this.automation.setTabUrl(windowId, 1, url));
     }
+    await this.claimTab(session, { windowId, index: 1 }, 1, url);
+    return windowId;
   }
 
   /**
@@ -881,10 +1565,11 @@ export class Client {
    *
    * @param {string} [selector] - Optional CSS selector to scope extraction
    * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
    * @returns {Promise<{text: string, href: string}[]>} Array of link descriptors
    */
-  async readLinks(selector?: string, index?: number): Promise<{ text: string; href: string }[]> {
-    const target = await this.resolveTarget(index);
+  async readLinks(selector?: string, index?: number, session?: string): Promise<{ text: string; href: string }[]> {
+    const target = await this.resolveTarget(index, session);
     const result = await this.executeScript(target, this.browser.links(selector));
     try {
       return JSON.parse(result);
@@ -893,6 +1578,19 @@ export class Client {
     }
   }
 
+  /**
+   * Extracts page content as Markdown from a tab in the front window
+   *
+   * @param {string} [selector] - Optional CSS selector to scope extraction
+   * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
+   * @returns {Promise<string>} Markdown document
+   */
+  async readMarkdown(selector?: string, index?: number, session?: string): Promise<string> {
+    const target = await this.resolveTarget(index, session);
+    return await this.executeScript(target, this.browser.markdown(selector));
+  }
+
   /**
    * Reads JavaScript expression result from a tab in the front window without creating tabs
    *
@@ -908,25 +1606,62 @@ export class Client {
     return await this.executeScript(target, script);
   }
 
+  /**
+   * Captures an accessibility snapshot from a tab in the front window
+   *
+   * @param {string} [selector] - Optional CSS selector to scope the snapshot
+   * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
+   * @returns {Promise<string>} Indented role/name/state tree with ref IDs
+   */
+  async readSnapshot(selector?: string, index?: number, session?: string): Promise<string> {
+    const target = await this.resolveTarget(index, session);
+    return await this.executeScript(target, this.browser.snapshot(selector));
+  }
+
+  /**
+   * Extracts the rendered text from a tab in the front window
+   *
+   * @param {string} [selector] - Optional CSS selector to scope extraction
+   * @param {number} [index] - Optional tab index; defaults to current tab
+   * @param {string} [session] - Session whose working tab to observe instead of the front tab
+   * @returns {Promise<string>} Page text including same-origin frames and shadow roots
+   */
+  async readText(selector?: string, index?: number, session?: string): Promise<string> {
+    const target = await this.resolveTarget(index, session);
+    return await this.executeScript(target, this.browser.text(selector));
+  }
+
   /**
    * Refreshes the working tab, optionally bypassing the browser cache
    *
    * @param {boolean} [hard=false] - Whether to bypass browser cache
    * @param {string} [selector] - CSS selector to wait for after reload
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<boolean>} Whether the selector was found (true if no selector specified)
    */
-  async refresh(hard: boolean = false, selector?: string): Promise<boolean> {
-    const target = await this.getCurrentTab();
+  async refresh(hard: boolean = false, selector?: string, session?: string): Promise<boolean> {
+    const target = await this.getCurrentTab(session);
     await this.executeScript(target, `location.reload(${hard ? 'true' : ''})`);
-    await this.injectErrorCaptureEarly(target);
+    await this.injectCaptureEarly(target);
     await this.waitForPageLoad(target);
-    await this.injectErrorCapture(target);
+    await this.injectCapture(target);
     if (selector) {
       return await this.waitForSelector(target, selector);
     }
     return true;
   }
 
+  /**
+   * Converts a snapshot ref ID into the CSS selector matching its element
+   *
+   * @param {string} ref - Ref ID from a `read` snapshot (e.g. `e12`)
+   * @returns {string} CSS attribute selector for the tagged element
+   */
+  refSelector(ref: string): string {
+    return `[data-safari-ref="${ref.trim().replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
+  }
+
   /**
    * Creates a standardized text response for tool execution
    *
@@ -944,10 +1679,11 @@ export class Client {
    *
    * @param {string} direction - Scroll direction ('up' or 'down')
    * @param {number} pixels - Number of pixels to scroll
+   * @param {string} [session] - Session whose working tab to scroll instead of the front tab
    * @returns {Promise<void>}
    */
-  async scrollByPixels(direction: 'up' | 'down', pixels: number): Promise<void> {
-    const target = await this.resolveTarget();
+  async scrollByPixels(direction: 'up' | 'down', pixels: number, session?: string): Promise<void> {
+    const target = session === undefined ? await this.resolveTarget() : await this.getCurrentTab(session);
     const delta = direction === 'up' ? -pixels : pixels;
     await this.executeScript(target, `window.scrollBy(0, ${delta})`);
     await new Promise((resolve) => setTimeout(resolve, 300));
@@ -957,10 +1693,11 @@ export class Client {
    * Scrolls the front window's current tab to a viewport-page index
    *
    * @param {number} page - Page number to scroll to (1-based)
+   * @param {string} [session] - Session whose working tab to scroll instead of the front tab
    * @returns {Promise<void>}
    */
-  async scrollToPage(page: number = 1): Promise<void> {
-    const target = await this.resolveTarget();
+  async scrollToPage(page: number = 1, session?: string): Promise<void> {
+    const target = session === undefined ? await this.resolveTarget() : await this.getCurrentTab(session);
     if (page > 1) {
       const result = await this.executeScript(target, this.browser.pageInfo());
       const { innerHeight, scrollHeight } = JSON.parse(result);
@@ -979,11 +1716,12 @@ export class Client {
    *
    * @param {string} query - Search query text
    * @param {string} [selector] - CSS selector to wait for after page load
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<boolean>} Whether the selector was found (true if no selector specified)
    */
-  async search(query: string, selector?: string): Promise<boolean> {
+  async search(query: string, selector?: string, session?: string): Promise<boolean> {
     const url = await this.getSearchUrl(query);
-    return await this.navigateTo(url, selector);
+    return await this.navigateTo(url, selector, session);
   }
 
   /**
@@ -992,26 +1730,130 @@ export class Client {
    * @param {string} selector - CSS selector for the target <select>
    * @param {string} [value] - Option value attribute to match
    * @param {string} [text] - Option visible text (case-insensitive partial match)
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<string>} Description of the action taken
    */
-  async selectOption(selector: string, value?: string, text?: string): Promise<string> {
-    const target = await this.getCurrentTab();
+  async selectOption(selector: string, value?: string, text?: string, session?: string): Promise<string> {
+    const target = await this.getCurrentTab(session);
     const script = this.browser.selectOption(selector, value, text);
-    return await this.executeScript(target, script);
+    return this.checkResult(await this.executeScript(target, script));
+  }
+
+  /**
+   * Sets a checkbox, radio, or switch on the working tab to an explicit state
+   *
+   * @param {string} [selector] - CSS selector for the target control
+   * @param {string} [text] - Label or visible text (case-insensitive partial match)
+   * @param {boolean} [checked] - State to set
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<{element: string, checked: boolean, changed: boolean}>} Resolved control and its final state
+   * @throws {ToolError} `element_not_found` or `invalid_argument` when the control is missing or disabled, `assertion_failed` with the final state when it does not take the state
+   */
+  async setChecked(selector?: string, text?: string, checked: boolean = true, session?: string): Promise<{ element: string; checked: boolean; changed: boolean }> {
+    const target = await this.getCurrentTab(session);
+    const script = this.browser.check(selector, text, checked);
+    const result = JSON.parse(this.checkResult(await this.executeScript(target, script))) as { element: string; checked: boolean; changed: boolean };
+    if (result.checked !== checked) {
+      throw new ToolError('assertion_failed', `Expected ${result.element} to be ${checked ? 'checked' : 'unchecked'}, but it stayed ${result.checked ? 'checked' : 'unchecked'} after clicking it`);
+    }
+    return result;
   }
 
   /**
-   * Switches the front window to a specific tab
+   * Resizes the working tab's window so its viewport matches the given size
+   *
+   * Measures the browser chrome as the difference between the window's outer
+   * and inner dimensions, then sets the window bounds to the requested
+   * viewport plus chrome, anchored at the `SAFARI_WINDOW_BOUNDS` offset.
+   * Safari clamps bounds to the screen, so the resulting viewport is read
+   * back and returned rather than assumed.
+   *
+   * @param {number} width - Target viewport width in pixels
+   * @param {number} height - Target viewport height in pixels
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<{innerWidth: number, innerHeight: number}>} Resulting viewport dimensions
+   */
+  async setViewport(width: number, height: number, session?: string): Promise<{ innerWidth: number; innerHeight: number }> {
+    const target = await this.getCurrentTab(session);
+    const before = JSON.parse(await this.executeScript(target, this.browser.viewportSize())) as { innerWidth: number; innerHeight: number; outerWidth: number; outerHeight: number };
+    const chromeWidth = Math.max(0, before.outerWidth - before.innerWidth);
+    const chromeHeight = Math.max(0, before.outerHeight - before.innerHeight);
+    await this.appleScript(this.automation.setBounds(target.windowId, this.windowBounds, this.windowBounds, width + chromeWidth, height + chromeHeight));
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const after = JSON.parse(await this.executeScript(target, this.browser.viewportSize())) as { innerWidth: number; innerHeight: number };
+    return { innerWidth: after.innerWidth, innerHeight: after.innerHeight };
+  }
+
+  /**
+   * Waits for the working tab to settle after an action
+   *
+   * Applies each provided condition in turn (network idle first, then DOM
+   * stability), each bounded by the page-load timeout.
+   *
+   * @param {SettleOptions} opts - Quiet periods in milliseconds per condition
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<{domStable?: boolean, networkIdle?: boolean}>} Whether each provided condition was met
+   */
+  async settle(opts: SettleOptions, session?: string): Promise<{ domStable?: boolean; networkIdle?: boolean }> {
+    const result: { domStable?: boolean; networkIdle?: boolean } = {};
+    if (opts.networkIdle === undefined && opts.domStable === undefined) {
+      return result;
+    }
+    const target = await this.getCurrentTab(session);
+    if (opts.networkIdle !== undefined) {
+      ({ matched: result.networkIdle } = await this.waitFor(target, { kind: 'networkIdle', quietMs: opts.networkIdle }, this.pageLoadTimeout));
+    }
+    if (opts.domStable !== undefined) {
+      ({ matched: result.domStable } = await this.waitFor(target, { kind: 'domStable', quietMs: opts.domStable }, this.pageLoadTimeout));
+    }
+    return result;
+  }
+
+  /**
+   * Switches a window to a specific tab
    *
    * Focus shift only. Does not change the working tab; subsequent act
-   * operations still target the previously captured working tab.
+   * operations still target the previously captured working tab. With a
+   * window id the window is brought to the front first.
    *
-   * @param {number} index - Tab index (1-based)
+   * @param {number} [index] - Tab index (1-based); keeps the window's current tab when omitted
+   * @param {number} [windowId] - Window identifier; defaults to the front window
    * @returns {Promise<void>}
    */
-  async switchTab(index: number): Promise<void> {
-    const target = await this.resolveTarget();
-    await this.appleScript(this.automation.setCurrentTab(target.windowId, index));
+  async switchTab(index?: number, windowId?: number): Promise<void> {
+    if (windowId !== undefined) {
+      await this.appleScript(this.automation.focusWindow(windowId));
+    }
+    if (index !== undefined) {
+      const targetId = windowId ?? (await this.resolveTarget()).windowId;
+      await this.appleScript(this.automation.setCurrentTab(targetId, index));
+    }
+  }
+
+  /**
+   * Builds the operation queue key of the tab a tool call targets
+   *
+   * Act calls key on the session name without a Safari round trip, so the
+   * key stays the same before and after the session claims its tab. Other
+   * calls resolve the front window tab and key on the session owning it,
+   * if any, so both agree when they address the same tab.
+   *
+   * @param {boolean} working - Whether the call targets the working tab
+   * @param {number} [index] - Optional tab index in the front window
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<string>} Tab key as `session:<name>` for a working tab, `windowId:index` for another tab, or `front` when unresolved
+   */
+  async tabKey(working: boolean, index?: number, session: string = DEFAULT_SESSION): Promise<string> {
+    if (working) {
+      return `session:${session}`;
+    }
+    try {
+      const target = await this.resolveTarget(index);
+      const owner = Array.from(this.sessions).find(([, tab]) => tab.windowId === target.windowId && tab.index === target.index);
+      return owner ? `session:${owner[0]}` : `${target.windowId}:${target.index}`;
+    } catch {
+      return 'front';
+    }
   }
 
   /**
@@ -1032,24 +1874,25 @@ export class Client {
    * @param {boolean} [share=false] - Save to disk and return path instead of base64
    * @param {number} [display] - Display index for screen mode (1-based; defaults to main display)
    * @param {number} [settle] - Page mode: ms to wait after each scroll for content to settle (default 500)
+   * @param {string} [session] - Session whose working tab to capture instead of the front tab; the tab is made current in its window
    * @returns {Promise<ScreenshotResult>} Inline base64 or saved-file metadata
    */
-  async takeScreenshot(mode: ScreenshotMode = 'window', selector?: string, share: boolean = false, display?: number, settle?: number): Promise<ScreenshotResult> {
+  async takeScreenshot(mode: ScreenshotMode = 'window', selector?: string, share: boolean = false, display?: number, settle?: number, session?: string): Promise<ScreenshotResult> {
     if (mode === 'element' && !selector) {
-      throw new Error('Element mode requires a `selector` argument');
+      throw new ToolError('invalid_argument', 'Element mode requires a `selector` argument');
     }
     const output = await this.screenshotPath(share);
     if (mode === 'page') {
-      const target = await this.resolveTarget();
+      const target = await this.screenshotTarget(session);
       await this.screenshotPage(target, output, settle);
     } else if (mode === 'element') {
-      const target = await this.resolveTarget();
+      const target = await this.screenshotTarget(session);
       await this.screenshotElement(target, selector as string, output);
     } else if (mode === 'screen') {
       const displayIndex = display && display > 0 ? display : 1;
       await this.screenshotCapture(['-D', String(displayIndex), '-t', output.type, '-x', output.path]);
     } else {
-      const target = await this.resolveTarget();
+      const target = await this.screenshotTarget(session);
       await this.screenshotCapture(['-l', String(target.windowId), '-o', '-t', output.type, '-x', output.path]);
     }
     if (share) {
@@ -1063,6 +1906,46 @@ export class Client {
     return { kind: 'inline', base64: buffer.toString('base64'), mimeType: output.mimeType };
   }
 
+  /**
+   * Types text into an input on the working tab one keystroke at a time
+   *
+   * With a delay, each character is typed by its own script with the delay
+   * in between, so listeners that debounce or fetch suggestions see the
+   * keystrokes arrive over time.
+   *
+   * @param {string} text - Text to type
+   * @param {string} [selector] - CSS selector for the target input
+   * @param {boolean} [append] - Whether to keep the existing value
+   * @param {boolean} [submit] - Whether to press Enter and submit the form after typing
+   * @param {number} [delay] - Milliseconds between keystrokes
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<string>} Description of the action taken
+   */
+  async typeKeys(text: string, selector?: string, append: boolean = false, submit: boolean = false, delay: number = 0, session?: string): Promise<string> {
+    const target = await this.getCurrentTab(session);
+    const chars = Array.from(text);
+    let result: string;
+    if (delay <= 0 || chars.length <= 1) {
+      result = this.checkResult(await this.executeScript(target, this.browser.typeKeys(text, selector, append, submit)));
+    } else {
+      let typed = 0;
+      result = '';
+      for (const [index, ch] of chars.entries()) {
+        if (index > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        const last = index === chars.length - 1;
+        result = this.checkResult(await this.executeScript(target, this.browser.typeKeys(ch, selector, append || index > 0, submit && last)));
+        typed += parseInt(/^Typed (\d+)/.exec(result)?.[1] ?? '0', 10);
+      }
+      result = result.replace(/^Typed \d+/, `Typed ${typed}`);
+    }
+    if (submit) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    return result;
+  }
+
   /**
    * Types text into an input element on the working tab
    *
@@ -1070,18 +1953,77 @@ export class Client {
    * @param {string} [selector] - CSS selector for the target input
    * @param {boolean} [append=false] - Whether to append to existing value
    * @param {boolean} [submit=false] - Whether to press Enter after typing
+   * @param {string} [session] - Session name; defaults to the default session
    * @returns {Promise<string>} Description of the action taken
    */
-  async typeText(text: string, selector?: string, append: boolean = false, submit: boolean = false): Promise<string> {
-    const target = await this.getCurrentTab();
+  async typeText(text: string, selector?: string, append: boolean = false, submit: boolean = false, session?: string): Promise<string> {
+    const target = await this.getCurrentTab(session);
     const script = this.browser.typeText(text, selector, append, submit);
-    const result = await this.executeScript(target, script);
+    const result = this.checkResult(await this.executeScript(target, script));
     if (submit) {
       await new Promise((resolve) => setTimeout(resolve, 500));
     }
     return result;
   }
 
+  /**
+   * Attaches local files to a file input or drop zone on the working tab
+   *
+   * Reads each file in this process and transfers it into the page in
+   * base64 chunks, then builds the `File` objects in the page and assigns
+   * them to the target. Only files inside the `SAFARI_UPLOAD_DIR` directory
+   * (default `~/Downloads`) are read, after resolving symbolic links. Paths
+   * may start with `~` for the home directory; relative paths resolve
+   * against the upload directory. Chunks already staged in the page are
+   * dropped when a transfer fails.
+   *
+   * @param {string[]} paths - Local file paths
+   * @param {string} [selector] - CSS selector for the file input or drop zone; defaults to the first file input
+   * @param {string} [session] - Session name; defaults to the default session
+   * @returns {Promise<{element: string, target: string, files: {name: string, size: number, type: string}[], accepted: boolean}>} Resolved target and the files it received
+   * @throws {ToolError} `invalid_argument` when a file is missing, outside the upload directory, or the upload is too large
+   */
+  async uploadFiles(paths: string[], selector?: string, session?: string): Promise<{ element: string; target: 'drop' | 'input'; files: { name: string; size: number; type: string }[]; accepted: boolean }> {
+    const expand = (path: string): string => path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+    const root = resolve(expand(this.uploadDir));
+    if (!existsSync(root)) {
+      throw new ToolError('invalid_argument', `Upload directory not found: ${root}; set SAFARI_UPLOAD_DIR to an existing directory`);
+    }
+    const realRoot = realpathSync(root);
+    const files = paths.map((path) => {
+      const absolute = resolve(root, expand(path));
+      const stat = existsSync(absolute) ? statSync(absolute) : null;
+      if (!stat?.isFile()) {
+        throw new ToolError('invalid_argument', `File not found: ${path}`);
+      }
+      const real = realpathSync(absolute);
+      const inside = relative(realRoot, real);
+      if (inside.startsWith('..') || isAbsolute(inside)) {
+        throw new ToolError('invalid_argument', `File ${path} is outside the upload directory ${realRoot}; set SAFARI_UPLOAD_DIR to allow it`);
+      }
+      return { path: real, name: basename(absolute), type: UPLOAD_TYPES[extname(absolute).toLowerCase()] ?? 'application/octet-stream', size: stat.size, lastModified: stat.mtimeMs };
+    });
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    if (total > UPLOAD_LIMIT) {
+      throw new ToolError('invalid_argument', `Files total ${total} bytes, above the ${UPLOAD_LIMIT} byte upload limit`);
+    }
+    const target = await this.getCurrentTab(session);
+    const id = `upload-${++this.uploadCount}`;
+    try {
+      for (const [index, file] of files.entries()) {
+        const data = readFileSync(file.path);
+        for (let offset = 0; offset < data.length; offset += UPLOAD_CHUNK_SIZE) {
+          await this.executeScript(target, this.browser.uploadChunk(id, index, data.subarray(offset, offset + UPLOAD_CHUNK_SIZE).toString('base64')));
+        }
+      }
+    } catch (error) {
+      await this.executeScript(target, this.browser.uploadClear(id)).catch(() => undefined);
+      throw error;
+    }
+    const script = this.browser.upload(id, files.map(({ name, type, lastModified }) => ({ name, type, lastModified })), selector);
+    return JSON.parse(this.checkResult(await this.executeScript(target, script)));
+  }
+
   /**
    * Waits for a condition on the working tab
    *
@@ -1089,40 +2031,33 @@ export class Client {
    * - `selector`: wait for an element matching the selector to be present
    * - `selectorGone`: wait for no element matching the selector to be present
    * - `text`: wait for the page to contain the given text
+   * - `networkIdle`: wait for no fetch/XHR activity for the given milliseconds
+   * - `domStable`: wait for no DOM mutations for the given milliseconds
    *
-   * Polls every 100ms up to `timeoutMs` (defaults to the page-load timeout).
+   * The condition is watched in the page, with the slot polled under
+   * backoff up to `timeoutMs` (defaults to the page-load timeout).
+   *
+   * The front tab is watched, or the working tab of `session` when given.
    *
    * @param {object} opts - Wait options
-   * @returns {Promise<{matched: boolean, elapsedMs: number}>} Whether the condition was met before timeout
+   * @returns {Promise<{matched: boolean, elapsedMs: number, polls: number}>} Whether the condition was met before timeout
    */
-  async wait(opts: { selector?: string; selectorGone?: string; text?: string; timeoutMs?: number }): Promise<{ matched: boolean; elapsedMs: number }> {
-    const target = await this.resolveTarget();
+  async wait(opts: { domStable?: number; networkIdle?: number; selector?: string; selectorGone?: string; session?: string; text?: string; timeoutMs?: number }): Promise<{ matched: boolean; elapsedMs: number; polls: number }> {
+    const target = await this.resolveTarget(undefined, opts.session);
     const start = Date.now();
-    const timeout = opts.timeoutMs ?? this.pageLoadTimeout;
-    const escapedSelector = opts.selector ? this.escapeForJs(opts.selector) : '';
-    const escapedGone = opts.selectorGone ? this.escapeForJs(opts.selectorGone) : '';
-    const escapedText = opts.text ? this.escapeForJs(opts.text) : '';
-    while (Date.now() - start < timeout) {
-      if (opts.selector) {
-        const found = await this.executeScript(target, `document.querySelector('${escapedSelector}') !== null`);
-        if (found === 'true') {
-          return { matched: true, elapsedMs: Date.now() - start };
-        }
-      }
-      if (opts.selectorGone) {
-        const found = await this.executeScript(target, `document.querySelector('${escapedGone}') !== null`);
-        if (found === 'false') {
-          return { matched: true, elapsedMs: Date.now() - start };
-        }
-      }
-      if (opts.text) {
-        const has = await this.executeScript(target, `(document.body.innerText || '').indexOf('${escapedText}') !== -1 ? 'true' : 'false'`);
-        if (has === 'true') {
-          return { matched: true, elapsedMs: Date.now() - start };
-        }
-      }
-      await new Promise((resolve) => setTimeout(resolve, 100));
+    let condition: WatchCondition;
+    if (opts.selector) {
+      condition = { kind: 'selector', selector: opts.selector };
+    } else if (opts.selectorGone) {
+      condition = { kind: 'selectorGone', selector: opts.selectorGone };
+    } else if (opts.text) {
+      condition = { kind: 'text', text: opts.text };
+    } else if (opts.networkIdle !== undefined) {
+      condition = { kind: 'networkIdle', quietMs: opts.networkIdle };
+    } else {
+      condition = { kind: 'domStable', quietMs: opts.domStable ?? 0 };
     }
-    return { matched: false, elapsedMs: Date.now() - start };
+    const { matched, polls } = await this.waitFor(target, condition, opts.timeoutMs ?? this.pageLoadTimeout);
+    return { matched, elapsedMs: Date.now() - start, polls };
   }
 }
@@ -0,0 +1,91 @@
+/**
+ * Structured tool errors for Safari MCP Server
+ *
+ * @module server/error
+ * @author AXIVO
+ * @license BSD-3-Clause
+ */
+
+/**
+ * Tool error code - the failure class agents branch on
+ */
+export type ToolErrorCode =
+  | 'ambiguous_match'
+  | 'assertion_failed'
+  | 'element_not_found'
+  | 'invalid_argument'
+  | 'javascript_disabled'
+  | 'navigation_failed'
+  | 'no_window'
+  | 'permission_denied'
+  | 'tab_closed'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * Message patterns classifying errors raised by `osascript`, `screencapture`, and the worker
+ */
+const ERROR_PATTERNS: { pattern: RegExp; code: ToolErrorCode }[] = [
+  { pattern: /Allow JavaScript from Apple Events/i, code: 'javascript_disabled' },
+  { pattern: /Not authori[sz]ed to send Apple events|\(-1743\)|could not create image/i, code: 'permission_denied' },
+  { pattern: /not allowed to send keystrokes|not allowed assistive access|\(-1719\)/i, code: 'permission_denied' },
+  { pattern: /timed out|\(-1712\)/i, code: 'timeout' },
+  { pattern: /Can.t get window/i, code: 'no_window' }
+];
+
+/**
+ * Tool error carrying a code from the error taxonomy
+ *
+ * Thrown by the client and handlers, and converted by the handler guard
+ * into an `isError` tool result with a `{ error: { code, message } }`
+ * payload. Errors from other sources are classified by message.
+ *
+ * @class ToolError
+ */
+export class ToolError extends Error {
+  readonly code: ToolErrorCode;
+
+  /**
+   * Creates a new ToolError instance
+   *
+   * @param {ToolErrorCode} code - Error code
+   * @param {string} message - Human-readable failure description
+   */
+  constructor(code: ToolErrorCode, message: string) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+  }
+
+  /**
+   * Converts any thrown value into a ToolError
+   *
+   * Command failures are reduced to their `execution error` line, so the
+   * message does not echo the full script source.
+   *
+   * @param {unknown} error - Thrown value
+   * @returns {ToolError} Classified error
+   */
+  static from(error: unknown): ToolError {
+    if (error instanceof ToolError) {
+      return error;
+    }
+    let message = error instanceof Error ? error.message : String(error);
+    const execution = message.indexOf('execution error: ');
+    if (execution !== -1) {
+      message = message.substring(execution).trim();
+    }
+    const match = ERROR_PATTERNS.find(({ pattern }) => pattern.test(message));
+    return new ToolError(match ? match.code : 'unknown', message);
+  }
+
+  /**
+   * Builds the tool result reporting this error
+   *
+   * @returns {object} CallToolResult with `isError` and the JSON error payload
+   */
+  response(): { content: { type: 'text'; text: string }[]; isError: true } {
+    const text = JSON.stringify({ error: { code: this.code, message: this.message } });
+    return { content: [{ type: 'text', text }], isError: true };
+  }
+}
@@ -9,9 +9,59 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { Client } from './client.js';
+import { type FlowExpect, FlowRecorder, type FlowStep } from '../lib/flow.js';
+import { OperationQueue } from '../lib/queue.js';
+import { Client, DEFAULT_SESSION, type PageState } from './client.js';
+import { ToolError } from './error.js';
 import { McpTool } from './tool.js';
 
+/**
+ * Queue access - how a tool call enters its tab's operation queue
+ *
+ * `act` runs exclusively on the working tab, `capture` exclusively on the
+ * front tab (e.g. page screenshots that scroll and restore the page, or
+ * scrolling and tab changes without a session), and `observe` concurrently
+ * with other observers on the front tab.
+ */
+type Access = 'act' | 'capture' | 'observe';
+
+/**
+ * Batch step tool - a tool a `batch` step can run
+ */
+type BatchTool = 'click' | 'navigate' | 'read' | 'screenshot' | 'select' | 'type' | 'wait';
+
+/**
+ * Drag endpoint - drag tool input identifying an element or a point
+ */
+type DragEndpoint = { ref?: string; selector?: string; text?: string; x?: number; y?: number };
+
+/**
+ * Tool response - content returned by a tool handler
+ */
+type ToolResponse = {
+  content: ({ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string })[];
+  structuredContent?: Record<string, unknown>;
+};
+
+/**
+ * Tool handler entry - input shape and handler of a tool runnable by `batch` and `replay`
+ */
+type ToolHandler = { input: z.ZodRawShape; handler: (args: never) => Promise<ToolResponse> };
+
+/**
+ * Maximum serialized length of a step result kept in a recorded flow
+ */
+const FLOW_RESULT_LIMIT = 2000;
+
+/**
+ * Viewport presets - named viewport sizes applied by the viewport tool
+ */
+const VIEWPORT_PRESETS: Record<'desktop' | 'mobile' | 'tablet', { width: number; height: number }> = {
+  desktop: { width: 1440, height: 900 },
+  mobile: { width: 390, height: 844 },
+  tablet: { width: 820, height: 1180 }
+};
+
 /**
  * Safari MCP Server implementation bridging Safari browser with Model Context Protocol
  *
@@ -22,6 +72,8 @@ import { McpTool } from './tool.js';
  */
 export class Mcp {
   private client: Client;
+  private queue: OperationQueue;
+  private recorder: FlowRecorder | null;
   private server: McpServer;
   private tool: McpTool;
 
@@ -30,9 +82,14 @@ export class Mcp {
    *
    * Initializes AppleScript client, MCP server, and registers every
    * tool with the underlying McpServer registry.
+   *
+   * @param {Client} [client] - Client instance, e.g. one backed by a replay executor
+   * @param {FlowRecorder | null} [recorder] - Flow recorder; defaults to one writing to `SAFARI_FLOW` when set
    */
-  constructor() {
-    this.client = new Client();
+  constructor(client?: Client, recorder?: FlowRecorder | null) {
+    this.client = client ?? new Client();
+    this.queue = new OperationQueue();
+    this.recorder = recorder !== undefined ? recorder : process.env.SAFARI_FLOW ? new FlowRecorder(process.env.SAFARI_FLOW) : null;
     this.server = new McpServer(
       { name: 'safari', version: this.client.getVersion() },
       { capabilities: { tools: {} } }
@@ -53,21 +110,30 @@ export class Mcp {
    */
   private getToolDefinitions(): Record<string, unknown>[] {
     const entries: { name: string; config: Record<string, unknown> }[] = [
+      { name: 'batch', config: this.tool.batch() },
+      { name: 'check', config: this.tool.check() },
       { name: 'click', config: this.tool.click() },
       { name: 'close', config: this.tool.close() },
+      { name: 'doctor', config: this.tool.doctor() },
+      { name: 'drag', config: this.tool.drag() },
       { name: 'execute', config: this.tool.execute() },
+      { name: 'fill', config: this.tool.fill() },
       { name: 'hover', config: this.tool.hover() },
       { name: 'inspect', config: this.tool.inspect() },
       { name: 'navigate', config: this.tool.navigate() },
+      { name: 'network', config: this.tool.network() },
       { name: 'open', config: this.tool.open() },
       { name: 'read', config: this.tool.read() },
       { name: 'refresh', config: this.tool.refresh() },
+      { name: 'replay', config: this.tool.replay() },
       { name: 'screenshot', config: this.tool.screenshot() },
       { name: 'scroll', config: this.tool.scroll() },
       { name: 'search', config: this.tool.search() },
       { name: 'select', config: this.tool.select() },
       { name: 'status', config: this.tool.status() },
       { name: 'type', config: this.tool.type() },
+      { name: 'upload', config: this.tool.upload() },
+      { name: 'viewport', config: this.tool.viewport() },
       { name: 'wait', config: this.tool.wait() },
       { name: 'window', config: this.tool.window() }
     ];
@@ -93,6 +159,96 @@ export class Mcp {
     });
   }
 
+  /**
+   * Wraps a tool handler with the tab queue and structured error results
+   *
+   * With an access kind, the call waits in the operation queue of the tab
+   * it targets: the working tab of the `session` for `act` and for any call
+   * naming a `session`, the front tab (or `index` tab) otherwise. Any error
+   * thrown by the handler is classified into a ToolError and returned as an
+   * `isError` result instead of rejecting the tool call.
+   *
+   * @private
+   * @param {Function} handler - Tool handler method
+   * @param {Access | Function} [access] - Queue access, or a function deriving it from the arguments
+   * @returns {Function} Handler bound to this instance
+   */
+  private guard<A, R>(handler: (args: A) => Promise<R>, access?: Access | ((args: A) => Access)): (args: A) => Promise<R | ReturnType<ToolError['response']>> {
+    return async (args: A) => {
+      try {
+        if (!access) {
+          return await handler.call(this, args);
+        }
+        const kind = typeof access === 'function' ? access(args) : access;
+        const { index, session } = (args ?? {}) as { index?: number; session?: string };
+        const key = kind === 'act' || session !== undefined ? await this.client.tabKey(true, undefined, session) : await this.client.tabKey(false, index);
+        return await this.queue.run(key, kind === 'observe' ? 'shared' : 'exclusive', () => handler.call(this, args));
+      } catch (error) {
+        return ToolError.from(error).response();
+      }
+    };
+  }
+
+  /**
+   * Handles batch tool requests
+   *
+   * Validates every step against its tool's input schema before running
+   * any, then calls the step handlers directly in order. The batch holds
+   * the working tab queue for its whole run, so steps are not queued again.
+   * A batch `session` reaches every step, so observe steps read the same
+   * working tab the act steps drive.
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleBatch(args: { session?: string; steps: { tool: BatchTool; args?: Record<string, unknown>; continueOnError: boolean }[] }) {
+    const tools = this.toolHandlers();
+    const parsed = args.steps.map((step, index) => {
+      const { input } = tools[step.tool];
+      const stepArgs = { ...step.args };
+      if ('session' in input && args.session !== undefined && stepArgs.session === undefined) {
+        stepArgs.session = args.session;
+      }
+      return this.parseStep(index, step.tool, input, stepArgs);
+    });
+    const steps: { tool: string; ok: boolean; result?: unknown; error?: { code: string; message: string } }[] = [];
+    const images: ToolResponse['content'] = [];
+    for (const [index, step] of args.steps.entries()) {
+      try {
+        const response = await (tools[step.tool]!.handler as (args: unknown) => Promise<ToolResponse>).call(this, parsed[index]);
+        steps.push({ tool: step.tool, ok: true, result: this.stepResult(response) });
+        images.push(...response.content.filter((item) => item.type === 'image'));
+      } catch (error) {
+        const { code, message } = ToolError.from(error);
+        steps.push({ tool: step.tool, ok: false, error: { code, message } });
+        if (!step.continueOnError) {
+          break;
+        }
+      }
+    }
+    const failed = steps.filter((step) => !step.ok).length;
+    const output = { steps, completed: steps.length - failed, failed, skipped: args.steps.length - steps.length };
+    const response = this.structured(output);
+    return { ...response, content: [...response.content, ...images] };
+  }
+
+  /**
+   * Handles check tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleCheck(args: { checked: boolean; ref?: string; selector?: string; session?: string; text?: string }) {
+    if (!args.selector && !args.text && !args.ref) {
+      throw new ToolError('invalid_argument', 'Missing required argument: provide either `selector`, `text`, or `ref`');
+    }
+    const selector = args.ref ? this.client.refSelector(args.ref) : args.selector;
+    const result = await this.client.setChecked(selector, args.text, args.checked, args.session);
+    return this.structured(result);
+  }
+
   /**
    * Handles click tool requests
    *
@@ -100,43 +256,31 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleClick(args: { key?: string; selector?: string; text?: string; wait?: string; x?: number; y?: number }) {
-    if (!args.text && !args.selector && !args.key && (args.x === undefined || args.y === undefined)) {
-      return this.client.response('Missing required arguments: text, selector, key, or x/y coordinates');
+  private async handleClick(args: { domStable?: number; key?: string; networkIdle?: number; ref?: string; selector?: string; session?: string; text?: string; wait?: string; x?: number; y?: number }) {
+    if (!args.text && !args.selector && !args.ref && !args.key && (args.x === undefined || args.y === undefined)) {
+      throw new ToolError('invalid_argument', 'Missing required arguments: text, selector, ref, key, or x/y coordinates');
     }
-    const openTitle = await this.client.getTitle();
-    const openUrl = await this.client.getUrl();
-    const { pages: openPages } = await this.client.getPageInfo();
-    const openTabs = (await this.client.listTabs()).length;
+    const selector = args.ref ? this.client.refSelector(args.ref) : args.selector;
+    const text = args.ref ? undefined : args.text;
+    const before = await this.client.getSessionState(args.session).catch(() => null);
     let result: string;
     let selectorFound: boolean | undefined;
     if (args.key) {
-      result = await this.client.keypress(args.key, args.selector);
+      result = await this.client.keypress(args.key, selector, args.session);
     } else {
-      ({ result, selectorFound } = await this.client.clickElement(args.selector, args.text, args.wait, args.x, args.y));
+      ({ result, selectorFound } = await this.client.clickElement(selector, text, args.wait, args.x, args.y, args.session));
     }
-    const title = await this.client.getTitle();
-    const url = await this.client.getUrl();
-    const { pages } = await this.client.getPageInfo();
-    const tabs = await this.client.listTabs();
-    const response: Record<string, unknown> = { result, title, url, pages, tabs: tabs.length };
+    const settled = await this.client.settle({ domStable: args.domStable, networkIdle: args.networkIdle }, args.session);
+    const after = await this.client.getSessionState(args.session) ?? await this.client.getPageState();
+    const response: Record<string, unknown> = { result, title: after.title, url: after.url, pages: after.pages, tabs: after.tabs.length };
     if (args.wait) {
       response.selectorFound = selectorFound;
     }
-    const changes: string[] = [];
-    if (openTitle !== title) {
-      changes.push('title changed');
-    }
-    if (openUrl !== url) {
-      changes.push('url changed');
-    }
-    if (openPages !== pages) {
-      changes.push(`pages changed from ${openPages} to ${pages}`);
-    }
-    if (openTabs !== tabs.length) {
-      changes.push(`tabs changed from ${openTabs} to ${tabs.length}`);
-      response.tabList = tabs;
+    Object.assign(response, settled);
+    if (before && before.tabs.length !== after.tabs.length) {
+      response.tabList = after.tabs;
     }
+    const changes = before ? this.pageChanges(before, after) : [];
     if (changes.length) {
       response.changes = changes;
     }
@@ -146,17 +290,47 @@ export class Mcp {
   /**
    * Handles close tool requests
    *
-   * Closes the working tab if one exists. The user's other tabs and
-   * windows are unaffected.
+   * Closes the session's working tab if one exists. The user's other tabs,
+   * windows, and sessions are unaffected.
    *
    * @private
+   * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleClose() {
-    await this.client.closeWorkingTab();
+  private async handleClose(args: { session?: string }) {
+    await this.client.closeWorkingTab(args.session);
     return this.structured({ closed: true });
   }
 
+  /**
+   * Handles doctor tool requests
+   *
+   * @private
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleDoctor() {
+    const report = await this.client.diagnose();
+    return this.structured(report);
+  }
+
+  /**
+   * Handles drag tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleDrag(args: { from: DragEndpoint; session?: string; steps: number; to: DragEndpoint }) {
+    const point = (endpoint: DragEndpoint, name: string) => {
+      if (!endpoint.ref && !endpoint.selector && !endpoint.text && (endpoint.x === undefined || endpoint.y === undefined)) {
+        throw new ToolError('invalid_argument', `Missing required argument: provide \`${name}\` with either \`selector\`, \`text\`, \`ref\`, or both \`x\` and \`y\``);
+      }
+      return { selector: endpoint.ref ? this.client.refSelector(endpoint.ref) : endpoint.selector, text: endpoint.text, x: endpoint.x, y: endpoint.y };
+    };
+    const result = await this.client.drag(point(args.from, 'from'), point(args.to, 'to'), args.steps, args.session);
+    return this.structured(result);
+  }
+
   /**
    * Handles execute tool requests
    *
@@ -164,12 +338,29 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleExecute(args: { script: string }) {
-    const target = await this.client.getCurrentTab();
+  private async handleExecute(args: { script: string; session?: string }) {
+    const target = await this.client.getCurrentTab(args.session);
     const result = await this.client.executeScript(target, args.script);
     return this.client.response(result);
   }
 
+  /**
+   * Handles fill tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleFill(args: { fields: Record<string, string | number | boolean>; session?: string }) {
+    const entries = Object.entries(args.fields).map(([field, value]) => ({ field, value }));
+    if (entries.length === 0) {
+      throw new ToolError('invalid_argument', 'Missing required argument: `fields` needs at least one field');
+    }
+    const fields = await this.client.fillForm(entries, args.session);
+    const filled = fields.filter((field) => field.ok).length;
+    return this.structured({ fields, filled, failed: fields.length - filled });
+  }
+
   /**
    * Handles hover tool requests
    *
@@ -177,11 +368,12 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleHover(args: { selector?: string; text?: string }) {
-    if (!args.selector && !args.text) {
-      return this.client.response('Missing required argument: provide either `selector` or `text`');
+  private async handleHover(args: { ref?: string; selector?: string; session?: string; text?: string }) {
+    if (!args.selector && !args.text && !args.ref) {
+      throw new ToolError('invalid_argument', 'Missing required argument: provide either `selector`, `text`, or `ref`');
     }
-    const result = await this.client.hover(args.selector, args.text);
+    const selector = args.ref ? this.client.refSelector(args.ref) : args.selector;
+    const result = await this.client.hover(selector, args.text, args.session);
     return this.client.response(result);
   }
 
@@ -192,8 +384,8 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleInspect(args: { selector: string; index?: number }) {
-    const result = await this.client.inspect(args.selector, args.index);
+  private async handleInspect(args: { index?: number; selector: string; session?: string }) {
+    const result = await this.client.inspect(args.selector, args.index, args.session);
     return this.structured(result);
   }
 
@@ -204,41 +396,63 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleNavigate(args: { direction?: 'back' | 'forward'; selector?: string; steps: number; url?: string }) {
-    let selectorFound: boolean | undefined;
+  private async handleNavigate(args: { direction?: 'back' | 'forward'; domStable?: number; networkIdle?: number; selector?: string; session?: string; steps: number; url?: string }) {
+    if (!args.url && !args.direction) {
+      throw new ToolError('invalid_argument', 'Missing required arguments: url or direction');
+    }
+    const before = await this.client.getSessionState(args.session).catch(() => null);
+    let selectorFound: boolean;
     if (args.url) {
-      selectorFound = await this.client.navigateTo(args.url, args.selector);
-    } else if (args.direction) {
-      const steps = args.direction === 'back' ? -args.steps : args.steps;
-      selectorFound = await this.client.goHistory(steps, args.selector);
+      selectorFound = await this.client.navigateTo(args.url, args.selector, args.session);
     } else {
-      return this.client.response('Missing required arguments: url or direction');
+      const steps = args.direction === 'back' ? -args.steps : args.steps;
+      selectorFound = await this.client.goHistory(steps, args.selector, args.session);
     }
-    const title = await this.client.getTitle();
-    const url = await this.client.getUrl();
-    const { innerHeight, scrollHeight, scrollOffset, pages } = await this.client.getPageInfo();
-    const tabs = (await this.client.listTabs()).length;
-    const output: Record<string, unknown> = { title, url, pages, innerHeight, scrollHeight, scrollOffset, tabs };
+    const settled = await this.client.settle({ domStable: args.domStable, networkIdle: args.networkIdle }, args.session);
+    const after = await this.client.getSessionState(args.session) ?? await this.client.getPageState();
+    const { title, url, pages, innerHeight, scrollHeight, scrollOffset } = after;
+    const output: Record<string, unknown> = { title, url, pages, innerHeight, scrollHeight, scrollOffset, tabs: after.tabs.length, ...settled };
     if (args.selector) {
       output.selectorFound = selectorFound;
     }
+    const changes = before ? this.pageChanges(before, after) : [];
+    if (changes.length) {
+      output.changes = changes;
+    }
     return this.structured(output);
   }
 
+  /**
+   * Handles network tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleNetwork(args: { action: 'clear' | 'list'; bodies: boolean; index?: number; session?: string; status?: string; url?: string }) {
+    if (args.action === 'clear') {
+      const cleared = await this.client.clearNetwork(args.index, args.session);
+      return this.structured({ cleared });
+    }
+    const result = await this.client.getNetwork({ bodies: args.bodies, status: args.status, url: args.url }, args.index, args.session);
+    return this.structured(result);
+  }
+
   /**
    * Handles open tool requests
    *
    * Opens a fresh blank tab. Activates Safari and creates a window first
-   * if none is open. The new tab becomes the working tab - subsequent
-   * act operations (`navigate`, `click`, `type`, ...) will target it. Tool
-   * surface guidance is available via the standard `tools/list` MCP
-   * request.
+   * if none is open. The new tab becomes the working tab of the session -
+   * subsequent act operations (`navigate`, `click`, `type`, ...) in that
+   * session will target it. Tool surface guidance is available via the
+   * standard `tools/list` MCP request.
    *
    * @private
+   * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleOpen() {
-    await this.client.openTab();
+  private async handleOpen(args: { session?: string }) {
+    await this.client.openTab(undefined, args.session);
     return this.structured({ opened: true });
   }
 
@@ -249,21 +463,51 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleRead(args: { selector?: string; index?: number; mode: 'text' | 'links' }) {
-    const title = await this.client.getTitle(args.index);
-    const url = await this.client.getUrl(args.index);
-    const { pages } = await this.client.getPageInfo(args.index);
+  private async handleRead(args: { cursor?: string; index?: number; maxChars?: number; mode: 'links' | 'markdown' | 'snapshot' | 'text'; selector?: string; session?: string }) {
+    const paginated = args.cursor !== undefined || args.maxChars !== undefined;
+    const start = args.cursor !== undefined ? parseInt(args.cursor, 10) : 0;
+    if (!Number.isInteger(start) || start < 0) {
+      throw new ToolError('invalid_argument', `Invalid cursor: ${args.cursor}`);
+    }
+    if (args.maxChars !== undefined && args.maxChars < 1) {
+      throw new ToolError('invalid_argument', 'Invalid maxChars: must be a positive number');
+    }
+    const title = await this.client.getTitle(args.index, args.session);
+    const url = await this.client.getUrl(args.index, args.session);
+    const { pages } = await this.client.getPageInfo(args.index, args.session);
     const output: Record<string, unknown> = { title, url, pages };
+    let content: string;
     if (args.mode === 'links') {
-      output.links = await this.client.readLinks(args.selector, args.index);
+      const links = await this.client.readLinks(args.selector, args.index, args.session);
+      if (paginated) {
+        const chunk = this.paginateLinks(links, start, args.maxChars);
+        output.links = chunk.links;
+        output.totalLength = links.length;
+        if (chunk.nextCursor !== undefined) {
+          output.nextCursor = chunk.nextCursor;
+        }
+      } else {
+        output.links = links;
+      }
     } else {
-      const escaped = args.selector ? this.client.escapeForJs(args.selector) : '';
-      const textScript = args.selector
-        ? `(document.querySelector('${escaped}') || {}).innerText || ''`
-        : 'document.body.innerText';
-      output.text = await this.client.readScript(textScript, args.index);
+      if (args.mode === 'markdown') {
+        content = await this.client.readMarkdown(args.selector, args.index, args.session);
+      } else if (args.mode === 'snapshot') {
+        content = await this.client.readSnapshot(args.selector, args.index, args.session);
+      } else {
+        content = await this.client.readText(args.selector, args.index, args.session);
+      }
+      if (paginated) {
+        const chunk = this.paginateText(content, start, args.maxChars);
+        content = chunk.text;
+        output.totalLength = chunk.totalLength;
+        if (chunk.nextCursor !== undefined) {
+          output.nextCursor = chunk.nextCursor;
+        }
+      }
+      output[args.mode] = content;
     }
-    const { errors, warnings } = await this.client.getConsoleErrors(args.index);
+    const { errors, warnings } = await this.client.getConsoleErrors(args.index, args.session);
     if (errors.length) {
       output.errors = errors;
     }
@@ -280,19 +524,35 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleRefresh(args: { hard: boolean; selector?: string }) {
-    const selectorFound = await this.client.refresh(args.hard, args.selector);
-    const title = await this.client.getTitle();
-    const url = await this.client.getUrl();
-    const { innerHeight, scrollHeight, scrollOffset, pages } = await this.client.getPageInfo();
-    const tabs = (await this.client.listTabs()).length;
-    const output: Record<string, unknown> = { title, url, pages, innerHeight, scrollHeight, scrollOffset, tabs };
+  private async handleRefresh(args: { domStable?: number; hard: boolean; networkIdle?: number; selector?: string; session?: string }) {
+    const before = await this.client.getSessionState(args.session).catch(() => null);
+    const selectorFound = await this.client.refresh(args.hard, args.selector, args.session);
+    const settled = await this.client.settle({ domStable: args.domStable, networkIdle: args.networkIdle }, args.session);
+    const after = await this.client.getSessionState(args.session) ?? await this.client.getPageState();
+    const { title, url, pages, innerHeight, scrollHeight, scrollOffset } = after;
+    const output: Record<string, unknown> = { title, url, pages, innerHeight, scrollHeight, scrollOffset, tabs: after.tabs.length, ...settled };
     if (args.selector) {
       output.selectorFound = selectorFound;
     }
+    const changes = before ? this.pageChanges(before, after) : [];
+    if (changes.length) {
+      output.changes = changes;
+    }
     return this.structured(output);
   }
 
+  /**
+   * Handles replay tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleReplay(args: { continueOnError: boolean; path: string }) {
+    const result = await this.replay(args.path, args.continueOnError);
+    return this.structured(result);
+  }
+
   /**
    * Handles screenshot tool requests
    *
@@ -300,9 +560,9 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleScreenshot(args: { display?: number; mode: 'element' | 'page' | 'screen' | 'window'; selector?: string; settle?: number; share: boolean }) {
-    const result = await this.client.takeScreenshot(args.mode, args.selector, args.share, args.display, args.settle);
-    const browserMeta = args.mode === 'screen' ? null : await this.client.getPageInfo();
+  private async handleScreenshot(args: { display?: number; mode: 'element' | 'page' | 'screen' | 'window'; selector?: string; session?: string; settle?: number; share: boolean }) {
+    const result = await this.client.takeScreenshot(args.mode, args.selector, args.share, args.display, args.settle, args.session);
+    const browserMeta = args.mode === 'screen' ? null : await this.client.getPageInfo(undefined, args.session);
     if (result.kind === 'saved') {
       const payload: Record<string, unknown> = { path: result.path, width: result.width, height: result.height, mimeType: result.mimeType };
       if (browserMeta) {
@@ -338,21 +598,21 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleScroll(args: { direction?: 'up' | 'down'; page?: number; pixels?: number }) {
+  private async handleScroll(args: { direction?: 'up' | 'down'; page?: number; pixels?: number; session?: string }) {
     if (args.page !== undefined && (args.direction || args.pixels !== undefined)) {
-      return this.client.response('Invalid arguments: provide either page or direction with pixels, not both');
+      throw new ToolError('invalid_argument', 'Invalid arguments: provide either page or direction with pixels, not both');
     }
     if (args.page !== undefined) {
-      await this.client.scrollToPage(args.page);
+      await this.client.scrollToPage(args.page, args.session);
     } else if (args.direction && args.pixels !== undefined) {
-      await this.client.scrollByPixels(args.direction, args.pixels);
+      await this.client.scrollByPixels(args.direction, args.pixels, args.session);
     } else if (args.direction) {
-      const { innerHeight } = await this.client.getPageInfo();
-      await this.client.scrollByPixels(args.direction, innerHeight);
+      const { innerHeight } = await this.client.getPageInfo(undefined, args.session);
+      await this.client.scrollByPixels(args.direction, innerHeight, args.session);
     } else {
-      return this.client.response('Missing required arguments: page, or direction');
+      throw new ToolError('invalid_argument', 'Missing required arguments: page, or direction');
     }
-    const { innerHeight, scrollHeight, scrollOffset, pages } = await this.client.getPageInfo();
+    const { innerHeight, scrollHeight, scrollOffset, pages } = await this.client.getPageInfo(undefined, args.session);
     return this.structured({ innerHeight, scrollHeight, scrollOffset, pages });
   }
 
@@ -363,13 +623,17 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleSearch(args: { text: string }) {
-    await this.client.search(args.text);
-    const title = await this.client.getTitle();
-    const url = await this.client.getUrl();
-    const { innerHeight, scrollHeight, scrollOffset, pages } = await this.client.getPageInfo();
-    const tabs = (await this.client.listTabs()).length;
-    return this.structured({ title, url, pages, innerHeight, scrollHeight, scrollOffset, tabs });
+  private async handleSearch(args: { session?: string; text: string }) {
+    const before = await this.client.getSessionState(args.session).catch(() => null);
+    await this.client.search(args.text, undefined, args.session);
+    const after = await this.client.getSessionState(args.session) ?? await this.client.getPageState();
+    const { title, url, pages, innerHeight, scrollHeight, scrollOffset } = after;
+    const output: Record<string, unknown> = { title, url, pages, innerHeight, scrollHeight, scrollOffset, tabs: after.tabs.length };
+    const changes = before ? this.pageChanges(before, after) : [];
+    if (changes.length) {
+      output.changes = changes;
+    }
+    return this.structured(output);
   }
 
   /**
@@ -379,20 +643,25 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleSelect(args: { selector: string; value?: string; text?: string }) {
+  private async handleSelect(args: { ref?: string; selector?: string; session?: string; value?: string; text?: string }) {
+    const selector = args.ref ? this.client.refSelector(args.ref) : args.selector;
+    if (!selector) {
+      throw new ToolError('invalid_argument', 'Missing required argument: provide either `selector` or `ref`');
+    }
     if (!args.value && !args.text) {
-      return this.client.response('Missing required argument: provide either `value` or `text`');
+      throw new ToolError('invalid_argument', 'Missing required argument: provide either `value` or `text`');
     }
-    const result = await this.client.selectOption(args.selector, args.value, args.text);
+    const result = await this.client.selectOption(selector, args.value, args.text, args.session);
     return this.client.response(result);
   }
 
   /**
    * Handles status tool requests
    *
-   * Returns current Safari tabs and the full tool surface in one payload.
-   * Designed for session-start orientation: the calling instance learns
-   * what tools exist (with usage guidance) and what is currently open.
+   * Returns current Safari tabs, named sessions, and the full tool surface
+   * in one payload. Designed for session-start orientation: the calling
+   * instance learns what tools exist (with usage guidance) and what is
+   * currently open.
    *
    * @private
    * @returns {Promise<any>} Tool execution response
@@ -400,7 +669,9 @@ export class Mcp {
   private async handleStatus() {
     const tabs = await this.client.listFrontTabs();
     const tools = this.getToolDefinitions();
-    return this.structured({ tabs, tools });
+    const queue = this.queue.depth();
+    const sessions = await this.client.listSessions();
+    return this.structured({ tabs, tools, queue, sessions });
   }
 
   /**
@@ -410,11 +681,51 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleType(args: { text: string; append: boolean; selector?: string; submit: boolean }) {
-    const result = await this.client.typeText(args.text, args.selector, args.append, args.submit);
+  private async handleType(args: { text: string; append: boolean; delay?: number; mode: 'keys' | 'set'; ref?: string; selector?: string; session?: string; submit: boolean }) {
+    if (args.delay !== undefined && args.mode !== 'keys') {
+      throw new ToolError('invalid_argument', 'Invalid arguments: `delay` applies to `keys` mode only');
+    }
+    const selector = args.ref ? this.client.refSelector(args.ref) : args.selector;
+    const result = args.mode === 'keys'
+      ? await this.client.typeKeys(args.text, selector, args.append, args.submit, args.delay, args.session)
+      : await this.client.typeText(args.text, selector, args.append, args.submit, args.session);
     return this.client.response(result);
   }
 
+  /**
+   * Handles upload tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleUpload(args: { paths: string[]; ref?: string; selector?: string; session?: string }) {
+    const selector = args.ref ? this.client.refSelector(args.ref) : args.selector;
+    const result = await this.client.uploadFiles(args.paths, selector, args.session);
+    return this.structured(result);
+  }
+
+  /**
+   * Handles viewport tool requests
+   *
+   * @private
+   * @param {object} args - Tool arguments
+   * @returns {Promise<any>} Tool execution response
+   */
+  private async handleViewport(args: { height?: number; preset: 'custom' | 'desktop' | 'mobile' | 'tablet'; session?: string; width?: number }) {
+    let size: { width: number; height: number };
+    if (args.preset === 'custom') {
+      if (!args.width || !args.height) {
+        throw new ToolError('invalid_argument', 'Missing required arguments: width and height for custom preset');
+      }
+      size = { width: args.width, height: args.height };
+    } else {
+      size = VIEWPORT_PRESETS[args.preset];
+    }
+    const { innerWidth, innerHeight } = await this.client.setViewport(size.width, size.height, args.session);
+    return this.structured({ preset: args.preset, width: size.width, height: size.height, innerWidth, innerHeight });
+  }
+
   /**
    * Handles wait tool requests
    *
@@ -422,10 +733,10 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleWait(args: { selector?: string; selectorGone?: string; text?: string; timeoutMs?: number }) {
-    const provided = [args.selector, args.selectorGone, args.text].filter((v) => v !== undefined && v !== '').length;
+  private async handleWait(args: { domStable?: number; networkIdle?: number; selector?: string; selectorGone?: string; session?: string; text?: string; timeoutMs?: number }) {
+    const provided = [args.selector, args.selectorGone, args.text, args.networkIdle, args.domStable].filter((v) => v !== undefined && v !== '').length;
     if (provided !== 1) {
-      return this.client.response('Missing or ambiguous argument: provide exactly one of `selector`, `selectorGone`, or `text`');
+      throw new ToolError('invalid_argument', 'Missing or ambiguous argument: provide exactly one of `selector`, `selectorGone`, `text`, `networkIdle`, or `domStable`');
     }
     const result = await this.client.wait(args);
     return this.structured(result);
@@ -438,33 +749,55 @@ export class Mcp {
    * @param {object} args - Tool arguments
    * @returns {Promise<any>} Tool execution response
    */
-  private async handleWindow(args: { action: 'close' | 'list' | 'open' | 'switch'; index?: number; url?: string }) {
+  private async handleWindow(args: { action: 'close' | 'closeWindow' | 'list' | 'move' | 'open' | 'openWindow' | 'switch'; index?: number; private: boolean; session?: string; toWindowId?: number; url?: string; windowId?: number }) {
     switch (args.action) {
       case 'list': {
-        const tabs = await this.client.listTabs();
-        return this.structured({ tabs });
+        const tabs = await this.client.listTabs(args.windowId);
+        const windows = await this.client.listWindows();
+        return this.structured({ tabs, windows });
       }
       case 'switch': {
-        if (args.index === undefined) {
-          return this.client.response('Missing required argument: index');
+        if (args.index === undefined && args.windowId === undefined) {
+          throw new ToolError('invalid_argument', 'Missing required argument: index or windowId');
         }
-        await this.client.switchTab(args.index);
-        const tabs = await this.client.listTabs();
+        await this.client.switchTab(args.index, args.windowId);
+        const tabs = await this.client.listTabs(args.windowId);
         return this.structured({ tabs });
       }
       case 'close': {
         if (args.index === undefined) {
-          return this.client.response('Missing required argument: index');
+          throw new ToolError('invalid_argument', 'Missing required argument: index');
+        }
+        await this.client.closeTab(args.index, args.windowId);
+        const tabs = await this.client.listTabs(args.windowId);
+        return this.structured({ tabs });
+      }
+      case 'closeWindow': {
+        if (args.windowId === undefined) {
+          throw new ToolError('invalid_argument', 'Missing required argument: windowId');
         }
-        await this.client.closeTab(args.index);
-        const tabs = await this.client.listTabs();
+        await this.client.closeWindow(args.windowId);
+        const tabs = await this.client.listFrontTabs();
         return this.structured({ tabs });
       }
+      case 'move': {
+        if (args.index === undefined || args.toWindowId === undefined) {
+          throw new ToolError('invalid_argument', 'Missing required arguments: index and toWindowId');
+        }
+        await this.client.moveTab(args.index, args.toWindowId, args.windowId);
+        const tabs = await this.client.listTabs(args.toWindowId);
+        return this.structured({ tabs, windowId: args.toWindowId });
+      }
       case 'open': {
-        await this.client.openTab(args.url);
-        const tabs = await this.client.listTabs();
+        await this.client.openTab(args.url, args.session, args.windowId);
+        const tabs = await this.client.listTabs(args.windowId);
         return this.structured({ tabs });
       }
+      case 'openWindow': {
+        const windowId = await this.client.openWindow(args.url, args.private, args.session);
+        const tabs = await this.client.listTabs(windowId);
+        return this.structured({ tabs, windowId });
+      }
       default: {
         const exhaustive: never = args.action;
         throw new Error(`Unhandled window action: ${exhaustive}`);
@@ -472,34 +805,262 @@ export class Mcp {
     }
   }
 
+  /**
+   * Describes the differences between two page state snapshots
+   *
+   * @private
+   * @param {PageState} before - State captured before the action
+   * @param {PageState} after - State captured after the action
+   * @returns {string[]} Human-readable change descriptions
+   */
+  private pageChanges(before: PageState, after: PageState): string[] {
+    const changes: string[] = [];
+    if (before.title !== after.title) {
+      changes.push('title changed');
+    }
+    if (before.url !== after.url) {
+      changes.push('url changed');
+    }
+    if (before.pages !== after.pages) {
+      changes.push(`pages changed from ${before.pages} to ${after.pages}`);
+    }
+    if (before.tabs.length !== after.tabs.length) {
+      changes.push(`tabs changed from ${before.tabs.length} to ${after.tabs.length}`);
+    }
+    if (before.focus !== after.focus) {
+      changes.push(after.focus ? `focus moved to ${after.focus}` : 'focus cleared');
+    }
+    if (after.dialogs > before.dialogs) {
+      changes.push('dialog appeared');
+    } else if (after.dialogs < before.dialogs) {
+      changes.push('dialog closed');
+    }
+    if (before.elements !== after.elements) {
+      changes.push(`elements changed from ${before.elements} to ${after.elements}`);
+    } else if (before.fingerprint !== after.fingerprint) {
+      changes.push('content changed');
+    }
+    return changes;
+  }
+
+  /**
+   * Slices a link list into a chunk whose serialized size fits a character budget
+   *
+   * The cursor is the index of the first link in the chunk. At least one
+   * link is always returned so oversized entries cannot stall pagination.
+   *
+   * @private
+   * @param {object[]} links - Complete link list
+   * @param {number} start - Index of the first link to return
+   * @param {number} [maxChars] - Character budget; the remainder is returned when omitted
+   * @returns {object} Link chunk and the cursor of the next chunk when links remain
+   */
+  private paginateLinks(links: { text: string; href: string }[], start: number, maxChars?: number): { links: { text: string; href: string }[]; nextCursor?: string } {
+    const chunk: { text: string; href: string }[] = [];
+    let used = 0;
+    let next = start;
+    while (next < links.length) {
+      const size = JSON.stringify(links[next]).length + 1;
+      if (maxChars !== undefined && chunk.length > 0 && used + size > maxChars) {
+        break;
+      }
+      chunk.push(links[next]);
+      used += size;
+      next++;
+    }
+    return next < links.length ? { links: chunk, nextCursor: String(next) } : { links: chunk };
+  }
+
+  /**
+   * Slices text into a chunk that ends on a paragraph break within a character budget
+   *
+   * The cursor is the character offset of the chunk start. The chunk ends at
+   * the last blank-line paragraph break in the second half of the budget,
+   * falling back to the last line break there, then the last whitespace,
+   * then a hard cut, so chunks never shrink below half the budget.
+   *
+   * @private
+   * @param {string} text - Complete extracted text
+   * @param {number} start - Character offset of the chunk start
+   * @param {number} [maxChars] - Character budget; the remainder is returned when omitted
+   * @returns {object} Text chunk, total length, and the cursor of the next chunk when text remains
+   */
+  private paginateText(text: string, start: number, maxChars?: number): { text: string; totalLength: number; nextCursor?: string } {
+    const totalLength = text.length;
+    const from = Math.min(start, totalLength);
+    const limit = maxChars === undefined ? totalLength : Math.min(from + maxChars, totalLength);
+    let end = limit;
+    if (limit < totalLength) {
+      const slice = text.substring(from, limit);
+      const paragraph = slice.lastIndexOf('\n\n');
+      const line = slice.lastIndexOf('\n');
+      const space = slice.search(/\s\S*$/);
+      const half = slice.length / 2;
+      if (paragraph > half) {
+        end = from + paragraph + 2;
+      } else if (line > half) {
+        end = from + line + 1;
+      } else if (space > 0) {
+        end = from + space + 1;
+      }
+    }
+    const chunk = { text: text.substring(from, end), totalLength };
+    return end < totalLength ? { ...chunk, nextCursor: String(end) } : chunk;
+  }
+
+  /**
+   * Validates the arguments of a batch or replay step against its tool's input schema
+   *
+   * @private
+   * @param {number} index - Step index (0-based)
+   * @param {string} tool - Step tool name
+   * @param {z.ZodRawShape} input - Tool input shape
+   * @param {object} args - Step arguments
+   * @returns {object} Parsed arguments with schema defaults applied
+   * @throws {ToolError} `invalid_argument` when the arguments do not match the schema
+   */
+  private parseStep(index: number, tool: string, input: z.ZodRawShape, args: Record<string, unknown>): Record<string, unknown> {
+    const result = z.object(input).safeParse(args);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const path = issue.path.length > 0 ? ` at '${issue.path.join('.')}'` : '';
+      throw new ToolError('invalid_argument', `Invalid arguments for step ${index + 1} (${tool})${path}: ${issue.message}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Extracts the result of a batch step from its tool response
+   *
+   * Structured content is used as is; text content is parsed as JSON when
+   * it holds JSON and kept as text otherwise. Images are left out.
+   *
+   * @private
+   * @param {ToolResponse} response - Step tool response
+   * @returns {unknown} Step result
+   */
+  private stepResult(response: ToolResponse): unknown {
+    if (response.structuredContent) {
+      return response.structuredContent;
+    }
+    const texts = response.content.flatMap((item) => item.type === 'text' ? [item.text] : []);
+    const results = texts.map((text) => {
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        return text;
+      }
+    });
+    return results.length > 1 ? results : results[0];
+  }
+
+  /**
+   * Runs the startup prerequisite check and logs failed checks to stderr
+   *
+   * Passive, so a stopped Safari is not launched. Skipped when recording
+   * or replaying a transcript, so the probes neither enter the transcript
+   * nor desync its replay.
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async preflight(): Promise<void> {
+    if (process.env.SAFARI_TRANSCRIPT_MODE === 'record' || process.env.SAFARI_TRANSCRIPT_MODE === 'replay') {
+      return;
+    }
+    try {
+      const report = await this.client.diagnose(true);
+      for (const check of report.checks.filter((c) => c.status === 'fail')) {
+        console.error(`Safari prerequisite failed (${check.name}): ${check.detail}. Fix: ${check.fix}`);
+      }
+    } catch (error) {
+      console.error('Safari prerequisite check failed:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Wraps a tool handler so its calls are recorded into the flow file
+   *
+   * Each call is recorded with its arguments, its result when small enough,
+   * and the title and URL of the session's working tab afterwards. Failed
+   * calls are recorded with their error. Without a recorder the handler is
+   * returned unchanged.
+   *
+   * @private
+   * @param {string} name - Tool name
+   * @param {Function} handler - Tool handler method
+   * @returns {Function} Recording handler
+   */
+  private recorded<A, R>(name: string, handler: (args: A) => Promise<R>): (args: A) => Promise<R> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return handler;
+    }
+    return async (args: A) => {
+      const step: FlowStep = { tool: name, args: { ...(args ?? {}) as Record<string, unknown> }, ok: true };
+      try {
+        const response = await handler.call(this, args);
+        const result = this.stepResult(response as ToolResponse);
+        if (result !== undefined && JSON.stringify(result).length <= FLOW_RESULT_LIMIT) {
+          step.result = result;
+        }
+        const { session } = (args ?? {}) as { session?: string };
+        const state = await this.client.getSessionState(session).catch(() => null);
+        if (state) {
+          step.expect = { title: state.title, url: state.url };
+        }
+        return response;
+      } catch (error) {
+        const { code, message } = ToolError.from(error);
+        step.ok = false;
+        step.error = { code, message };
+        throw error;
+      } finally {
+        recorder.record(step);
+      }
+    };
+  }
+
   /**
    * Registers every tool with the McpServer registry
    *
-   * Each call wires a tool definition from `McpTool` to its handler.
-   * The SDK validates incoming arguments against the tool's `inputSchema`
-   * and (when present) the tool's response against its `outputSchema`.
+   * Each call wires a tool definition from `McpTool` to its handler,
+   * recording calls to every tool but `doctor`, `replay`, and `status`
+   * when a flow recorder is set. The SDK validates incoming arguments
+   * against the tool's `inputSchema` and (when present) the tool's
+   * response against its `outputSchema`.
    *
    * @private
    */
   private registerAll(): void {
-    this.server.registerTool('click', this.tool.click(), this.handleClick.bind(this));
-    this.server.registerTool('close', this.tool.close(), this.handleClose.bind(this));
-    this.server.registerTool('execute', this.tool.execute(), this.handleExecute.bind(this));
-    this.server.registerTool('hover', this.tool.hover(), this.handleHover.bind(this));
-    this.server.registerTool('inspect', this.tool.inspect(), this.handleInspect.bind(this));
-    this.server.registerTool('navigate', this.tool.navigate(), this.handleNavigate.bind(this));
-    this.server.registerTool('open', this.tool.open(), this.handleOpen.bind(this));
-    this.server.registerTool('read', this.tool.read(), this.handleRead.bind(this));
-    this.server.registerTool('refresh', this.tool.refresh(), this.handleRefresh.bind(this));
-    this.server.registerTool('screenshot', this.tool.screenshot(), this.handleScreenshot.bind(this));
-    this.server.registerTool('scroll', this.tool.scroll(), this.handleScroll.bind(this));
-    this.server.registerTool('search', this.tool.search(), this.handleSearch.bind(this));
-    this.server.registerTool('select', this.tool.select(), this.handleSelect.bind(this));
-    this.server.registerTool('status', this.tool.status(), this.handleStatus.bind(this));
-    this.server.registerTool('type', this.tool.type(), this.handleType.bind(this));
-    this.server.registerTool('wait', this.tool.wait(), this.handleWait.bind(this));
-    this.server.registerTool('window', this.tool.window(), this.handleWindow.bind(this));
+    this.server.registerTool('batch', this.tool.batch(), this.guard(this.recorded('batch', this.handleBatch), 'act'));
+    this.server.registerTool('check', this.tool.check(), this.guard(this.recorded('check', this.handleCheck), 'act'));
+    this.server.registerTool('click', this.tool.click(), this.guard(this.recorded('click', this.handleClick), 'act'));
+    this.server.registerTool('close', this.tool.close(), this.guard(this.recorded('close', this.handleClose), 'act'));
+    this.server.registerTool('doctor', this.tool.doctor(), this.guard(this.handleDoctor));
+    this.server.registerTool('drag', this.tool.drag(), this.guard(this.recorded('drag', this.handleDrag), 'act'));
+    this.server.registerTool('execute', this.tool.execute(), this.guard(this.recorded('execute', this.handleExecute), 'act'));
+    this.server.registerTool('fill', this.tool.fill(), this.guard(this.recorded('fill', this.handleFill), 'act'));
+    this.server.registerTool('hover', this.tool.hover(), this.guard(this.recorded('hover', this.handleHover), 'act'));
+    this.server.registerTool('inspect', this.tool.inspect(), this.guard(this.recorded('inspect', this.handleInspect), 'observe'));
+    this.server.registerTool('navigate', this.tool.navigate(), this.guard(this.recorded('navigate', this.handleNavigate), 'act'));
+    this.server.registerTool('network', this.tool.network(), this.guard(this.recorded('network', this.handleNetwork), (args) => args.action === 'clear' ? 'capture' : 'observe'));
+    this.server.registerTool('open', this.tool.open(), this.guard(this.recorded('open', this.handleOpen), 'act'));
+    this.server.registerTool('read', this.tool.read(), this.guard(this.recorded('read', this.handleRead), 'observe'));
+    this.server.registerTool('refresh', this.tool.refresh(), this.guard(this.recorded('refresh', this.handleRefresh), 'act'));
+    this.server.registerTool('replay', this.tool.replay(), this.guard(this.handleReplay, 'act'));
+    this.server.registerTool('screenshot', this.tool.screenshot(), this.guard(this.recorded('screenshot', this.handleScreenshot), (args) => args.mode === 'element' || args.mode === 'page' ? 'capture' : 'observe'));
+    this.server.registerTool('scroll', this.tool.scroll(), this.guard(this.recorded('scroll', this.handleScroll), (args) => args.session === undefined ? 'capture' : 'act'));
+    this.server.registerTool('search', this.tool.search(), this.guard(this.recorded('search', this.handleSearch), 'act'));
+    this.server.registerTool('select', this.tool.select(), this.guard(this.recorded('select', this.handleSelect), 'act'));
+    this.server.registerTool('status', this.tool.status(), this.guard(this.handleStatus));
+    this.server.registerTool('type', this.tool.type(), this.guard(this.recorded('type', this.handleType), 'act'));
+    this.server.registerTool('upload', this.tool.upload(), this.guard(this.recorded('upload', this.handleUpload), 'act'));
+    this.server.registerTool('viewport', this.tool.viewport(), this.guard(this.recorded('viewport', this.handleViewport), 'act'));
+    this.server.registerTool('wait', this.tool.wait(), this.guard(this.recorded('wait', this.handleWait), 'observe'));
+    this.server.registerTool('window', this.tool.window(), this.guard(this.recorded('window', this.handleWindow), (args) => args.action === 'list' ? 'observe' : args.action === 'open' || args.action === 'openWindow' ? 'act' : 'capture'));
   }
+
   /**
    * Builds an output payload for tool responses with structured content
    *
@@ -514,6 +1075,72 @@ export class Mcp {
     };
   }
 
+  /**
+   * Lists the tools `batch` and `replay` steps can run, with their input shapes
+   *
+   * @private
+   * @returns {Record<string, ToolHandler>} Tool handler entries by tool name
+   */
+  private toolHandlers(): Record<string, ToolHandler> {
+    return {
+      batch: { input: this.tool.batch().inputSchema, handler: this.handleBatch },
+      check: { input: this.tool.check().inputSchema, handler: this.handleCheck },
+      click: { input: this.tool.click().inputSchema, handler: this.handleClick },
+      close: { input: this.tool.close().inputSchema, handler: this.handleClose },
+      drag: { input: this.tool.drag().inputSchema, handler: this.handleDrag },
+      execute: { input: this.tool.execute().inputSchema, handler: this.handleExecute },
+      fill: { input: this.tool.fill().inputSchema, handler: this.handleFill },
+      hover: { input: this.tool.hover().inputSchema, handler: this.handleHover },
+      inspect: { input: this.tool.inspect().inputSchema, handler: this.handleInspect },
+      navigate: { input: this.tool.navigate().inputSchema, handler: this.handleNavigate },
+      network: { input: this.tool.network().inputSchema, handler: this.handleNetwork },
+      open: { input: this.tool.open().inputSchema, handler: this.handleOpen },
+      read: { input: this.tool.read().inputSchema, handler: this.handleRead },
+      refresh: { input: this.tool.refresh().inputSchema, handler: this.handleRefresh },
+      screenshot: { input: this.tool.screenshot().inputSchema, handler: this.handleScreenshot },
+      scroll: { input: this.tool.scroll().inputSchema, handler: this.handleScroll },
+      search: { input: this.tool.search().inputSchema, handler: this.handleSearch },
+      select: { input: this.tool.select().inputSchema, handler: this.handleSelect },
+      type: { input: this.tool.type().inputSchema, handler: this.handleType },
+      upload: { input: this.tool.upload().inputSchema, handler: this.handleUpload },
+      viewport: { input: this.tool.viewport().inputSchema, handler: this.handleViewport },
+      wait: { input: this.tool.wait().inputSchema, handler: this.handleWait },
+      window: { input: this.tool.window().inputSchema, handler: this.handleWindow }
+    };
+  }
+
+  /**
+   * Checks the assertions of a replayed flow step
+   *
+   * Title and URL are compared with the session's working tab, or the
+   * front tab when the session has none; a selector must match an element
+   * in the same tab within the page load timeout.
+   *
+   * @private
+   * @param {FlowExpect} expect - Step assertions
+   * @param {string} [session] - Session the step ran in
+   * @returns {Promise<void>}
+   * @throws {ToolError} `assertion_failed` when an assertion does not hold
+   */
+  private async verifyStep(expect: FlowExpect, session?: string): Promise<void> {
+    const working = await this.client.getSessionState(session);
+    if (expect.title !== undefined || expect.url !== undefined) {
+      const state = working ?? await this.client.getPageState();
+      if (expect.title !== undefined && state.title !== expect.title) {
+        throw new ToolError('assertion_failed', `Expected title '${expect.title}', got '${state.title}'`);
+      }
+      if (expect.url !== undefined && state.url !== expect.url) {
+        throw new ToolError('assertion_failed', `Expected URL '${expect.url}', got '${state.url}'`);
+      }
+    }
+    if (expect.selector) {
+      const { matched } = await this.client.wait({ selector: expect.selector, session: working ? session ?? DEFAULT_SESSION : undefined });
+      if (!matched) {
+        throw new ToolError('assertion_failed', `Expected an element matching '${expect.selector}'`);
+      }
+    }
+  }
+
   /**
    * Connects the MCP server to stdio transport with error handling
    *
@@ -523,5 +1150,57 @@ export class Mcp {
   async connect(transport: StdioServerTransport): Promise<void> {
     transport.onerror = () => { };
     await this.server.connect(transport);
+    void this.preflight();
+  }
+
+  /**
+   * Replays a recorded flow file with its assertions
+   *
+   * Steps run in order through their tool handlers, each followed by its
+   * `expect` assertions. Steps recorded as failed are skipped. A failing
+   * step stops the replay unless `continueOnError` is set.
+   *
+   * @param {string} path - Flow file path
+   * @param {boolean} [continueOnError] - Keep replaying after a failed step
+   * @returns {Promise<object>} Per-step outcomes with `passed`, `failed`, and `skipped` counts
+   * @throws {ToolError} `invalid_argument` when the flow file cannot be read
+   */
+  async replay(path: string, continueOnError: boolean = false): Promise<{ steps: { step: number; tool: string; ok: boolean; error?: { code: string; message: string } }[]; passed: number; failed: number; skipped: number }> {
+    let flow;
+    try {
+      flow = FlowRecorder.read(path);
+    } catch (error) {
+      throw new ToolError('invalid_argument', `Invalid flow file: ${(error as Error).message}`);
+    }
+    const tools = this.toolHandlers();
+    const steps: { step: number; tool: string; ok: boolean; error?: { code: string; message: string } }[] = [];
+    let skipped = 0;
+    for (const [index, step] of flow.steps.entries()) {
+      if (!step.ok) {
+        skipped++;
+        continue;
+      }
+      try {
+        const entry = tools[step.tool];
+        if (!entry) {
+          throw new ToolError('invalid_argument', `Step ${index + 1} runs ${step.tool}, which cannot be replayed`);
+        }
+        const args = this.parseStep(index, step.tool, entry.input, step.args);
+        await (entry.handler as (args: unknown) => Promise<ToolResponse>).call(this, args);
+        if (step.expect) {
+          await this.verifyStep(step.expect, args.session as string | undefined);
+        }
+        steps.push({ step: index + 1, tool: step.tool, ok: true });
+      } catch (error) {
+        const { code, message } = ToolError.from(error);
+        steps.push({ step: index + 1, tool: step.tool, ok: false, error: { code, message } });
+        if (!continueOnError) {
+          skipped += flow.steps.length - index - 1;
+          break;
+        }
+      }
+    }
+    const failed = steps.filter((step) => !step.ok).length;
+    return { steps, passed: steps.length - failed, failed, skipped };
   }
 }
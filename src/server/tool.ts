@@ -16,6 +16,10 @@ import { z } from 'zod';
  * truth. Tool-specific augmentations are merged into these in the
  * relevant tool method.
  */
+const observeSessionShape = {
+  session: z.string().min(1).optional().describe('Named session whose working tab to observe instead of the front tab; not combined with `index`')
+};
+
 const pageDimensionsShape = {
   innerHeight: z.number().describe('Viewport height in pixels'),
   scrollHeight: z.number().describe('Total scrollable content height in pixels'),
@@ -23,11 +27,29 @@ const pageDimensionsShape = {
   pages: z.number().describe('Number of viewport-sized pages')
 };
 
+const sessionShape = {
+  session: z.string().min(1).optional().describe('Named session whose working tab to act on; omit for the default session')
+};
+
+const settleShape = {
+  domStable: z.coerce.number().optional().describe('Milliseconds without DOM mutations to wait for afterwards'),
+  networkIdle: z.coerce.number().optional().describe('Milliseconds without in-flight fetch/XHR to wait for afterwards')
+};
+
+const settledShape = {
+  domStable: z.boolean().optional().describe('Whether the DOM stayed quiet for the requested duration, when provided'),
+  networkIdle: z.boolean().optional().describe('Whether the network stayed idle for the requested duration, when provided')
+};
+
 const tabShape = {
   active: z.boolean().describe('Whether this tab is currently active'),
   index: z.number().describe('Tab index (1-based)'),
   title: z.string().describe('Tab title'),
-  url: z.string().describe('Tab URL')
+  url: z.string().describe('Tab URL'),
+  windowId: z.number().describe('Window identifier of the tab'),
+  loading: z.boolean().optional().describe('Whether the document is still loading, reported when a single window is listed'),
+  working: z.boolean().describe('Whether this tab is the working tab of a session'),
+  session: z.string().optional().describe('Session whose working tab this is')
 };
 
 /**
@@ -45,6 +67,93 @@ const tabShape = {
  * @class McpTool
  */
 export class McpTool {
+  /**
+   * Creates MCP tool for running a sequence of tool steps in one call
+   *
+   * Runs `click`, `navigate`, `read`, `screenshot`, `select`, `type`, and
+   * `wait` steps in order, so common flows complete in one round trip.
+   */
+  batch() {
+    return {
+      description: 'Run an ordered list of tool steps in one call',
+      inputSchema: {
+        ...sessionShape,
+        steps: z.array(z.object({
+          tool: z.enum(['click', 'navigate', 'read', 'screenshot', 'select', 'type', 'wait']).describe('Tool the step runs'),
+          args: z.record(z.string(), z.unknown()).optional().describe('Tool arguments, as in a direct call to the tool'),
+          continueOnError: z.boolean().optional().default(false).describe('Run the next steps even when this step fails')
+        })).min(1).describe('Steps to run in order')
+      },
+      outputSchema: {
+        steps: z.array(z.object({
+          tool: z.string().describe('Tool the step ran'),
+          ok: z.boolean().describe('Whether the step succeeded'),
+          result: z.unknown().optional().describe('Step output, as returned by the tool'),
+          error: z.object({
+            code: z.string().describe('Error code'),
+            message: z.string().describe('Error message')
+          }).optional().describe('Step failure, when the step failed')
+        })).describe('Results of the steps that ran, in order'),
+        completed: z.number().describe('Number of steps that succeeded'),
+        failed: z.number().describe('Number of steps that failed'),
+        skipped: z.number().describe('Number of steps not run after a failed step')
+      },
+      annotations: {
+        title: 'Batch',
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      },
+      _meta: {
+        usage: [
+          'Each step `args` takes the same inputs as a direct call to its tool',
+          'The batch `session` applies to every step that does not set its own `session`, so observe steps read its working tab instead of the front tab',
+          'A failed step stops the batch unless it sets `continueOnError`',
+          'All step arguments are validated before the first step runs',
+          'Screenshot images are appended to the response content in step order'
+        ]
+      }
+    };
+  }
+
+  /**
+   * Creates MCP tool for setting checkbox, radio, and switch state
+   *
+   * Sets a native checkbox or radio, or a `role="switch"` or `aria-checked`
+   * control, to an explicit state and reports the final state, instead of
+   * toggling it blindly with `click`.
+   */
+  check() {
+    return {
+      description: 'Set a checkbox, radio, or switch to checked or unchecked',
+      inputSchema: {
+        ...sessionShape,
+        checked: z.boolean().optional().default(true).describe('State to set'),
+        ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector and text)'),
+        selector: z.string().optional().describe('CSS selector for the control, its label, or a wrapper around it'),
+        text: z.string().optional().describe('Label or visible text of the control (case-insensitive partial match)')
+      },
+      outputSchema: {
+        element: z.string().describe('Resolved control, e.g. `input[type=checkbox][name=terms]#terms`'),
+        checked: z.boolean().describe('Final checked state'),
+        changed: z.boolean().describe('Whether the state was changed')
+      },
+      annotations: {
+        title: 'Check',
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false
+      },
+      _meta: {
+        usage: [
+          'Provide either `selector`, `text`, or `ref` to identify the control',
+          'A control already in the requested state is left untouched',
+          'Radios cannot be unchecked; check another option in the group instead'
+        ]
+      }
+    };
+  }
+
   /**
    * Creates MCP tool for clicking elements on the browser window
    *
@@ -55,7 +164,10 @@ export class McpTool {
     return {
       description: 'Click an element on the browser window',
       inputSchema: {
+        ...sessionShape,
+        ...settleShape,
         key: z.string().optional().describe('Key to press (e.g., Escape, ArrowRight, ArrowLeft, Enter, Tab)'),
+        ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector and text)'),
         selector: z.string().optional().describe('CSS selector to click when no text provided or to scope the text search'),
         text: z.string().optional().describe('Text to match - visible text, image alt text, or aria-label'),
         wait: z.string().optional().describe('CSS selector to wait for after click'),
@@ -71,6 +183,7 @@ export class McpTool {
       _meta: {
         usage: [
           'Always use `read` first to discover real selectors on the page',
+          'Prefer `ref` from `read` with `mode: "snapshot"` to act on exactly the element seen',
           'Prefer `text` over `selector` parameter for matching elements',
           'Match aria-label attributes for buttons like Next, Previous, Close using `text` parameter',
           'Use descriptive text fragments from `read` output to avoid ambiguous matches',
@@ -78,6 +191,7 @@ export class McpTool {
           'Try first `key: "Escape"` then `text: "Close"` parameter values to close overlays or panels on current page',
           'Use `text: "Next"` and `text: "Previous"` parameter values to navigate between items in image detail panels and carousels',
           'Use `x` and `y` coordinates from `screenshot` output to click visual elements without text',
+          'Use `networkIdle` or `domStable` when the click triggers asynchronous loading or rendering',
           'Take a `screenshot` after clicking only when visual verification is needed'
         ]
       }
@@ -92,6 +206,9 @@ export class McpTool {
   close() {
     return {
       description: 'Close the working tab',
+      inputSchema: {
+        ...sessionShape
+      },
       outputSchema: {
         closed: z.boolean().describe('True after the working tab is closed or no tab existed')
       },
@@ -104,6 +221,95 @@ export class McpTool {
     };
   }
 
+  /**
+   * Creates MCP tool for diagnosing macOS and Safari prerequisites
+   */
+  doctor() {
+    return {
+      description: 'Check macOS and Safari prerequisites and report actionable fixes',
+      outputSchema: {
+        ok: z.boolean().describe('Whether no prerequisite check failed'),
+        checks: z.array(z.object({
+          name: z.enum(['automation', 'javascript', 'screenRecording', 'tabs']).describe('Prerequisite probed'),
+          status: z.enum(['fail', 'pass', 'skip', 'unknown']).describe('Probe outcome, `unknown` when the prerequisite could not be read'),
+          detail: z.string().describe('What the probe observed'),
+          code: z.string().optional().describe('Error code classified from the failure, when failed'),
+          fix: z.string().optional().describe('Setting to change, when failed')
+        })).describe('Prerequisite checks in probe order'),
+        safariRunning: z.boolean().describe('Whether Safari was running before the checks'),
+        safariVersion: z.string().describe('Installed Safari version, or empty when unreadable'),
+        windows: z.number().describe('Open Safari window count'),
+        searchEngine: z.object({
+          detected: z.boolean().describe('Whether the default search engine was detected'),
+          detail: z.string().describe('Search engine host, or the detection failure')
+        }).describe('Default search engine used by the `search` tool')
+      },
+      annotations: {
+        title: 'Doctor',
+        readOnlyHint: true,
+        idempotentHint: true,
+        openWorldHint: false
+      },
+      _meta: {
+        usage: [
+          'Use when a tool returns `permission_denied`, `javascript_disabled`, or `no_window` errors',
+          'Apply each failed check `fix`, then call `doctor` again to confirm'
+        ]
+      }
+    };
+  }
+
+  /**
+   * Creates MCP tool for dragging between elements or coordinates
+   *
+   * Synthesizes the pointer and mouse sequence along with HTML5 drag and
+   * drop events, reaching kanban boards, sliders, sortable lists, and drop
+   * zones that `click` and `hover` cannot.
+   */
+  drag() {
+    const point = z.object({
+      ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector and text)'),
+      selector: z.string().optional().describe('CSS selector for the element'),
+      text: z.string().optional().describe('Visible text to match (case-insensitive partial match)'),
+      x: z.coerce.number().optional().describe('X coordinate in pixels from the left of the viewport'),
+      y: z.coerce.number().optional().describe('Y coordinate in pixels from the top of the viewport')
+    });
+    const position = z.object({
+      x: z.number().describe('X coordinate in pixels'),
+      y: z.number().describe('Y coordinate in pixels')
+    });
+    return {
+      description: 'Drag from one element or point to another',
+      inputSchema: {
+        ...sessionShape,
+        from: point.describe('Drag source'),
+        steps: z.coerce.number().int().min(1).max(100).optional().default(5).describe('Pointer moves between source and target'),
+        to: point.describe('Drop target')
+      },
+      outputSchema: {
+        source: z.string().describe('Element the drag started on'),
+        target: z.string().describe('Element the drag ended on'),
+        from: position.describe('Drag start position'),
+        to: position.describe('Drag end position'),
+        dropped: z.boolean().describe('Whether a drop handler accepted the HTML5 drop')
+      },
+      annotations: {
+        title: 'Drag',
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      },
+      _meta: {
+        usage: [
+          'Give `from` and `to` each a `selector`, `text`, or `ref`, or both `x` and `y`',
+          'Element endpoints are the element centers',
+          'Raise `steps` for libraries that need pointer movement before they start a drag',
+          '`dropped` is false for mouse-driven libraries that ignore HTML5 drop events; check the page with `read` or `screenshot`'
+        ]
+      }
+    };
+  }
+
   /**
    * Creates MCP tool for executing JavaScript in the browser context
    *
@@ -114,6 +320,7 @@ export class McpTool {
     return {
       description: 'Execute JavaScript in the browser context',
       inputSchema: {
+        ...sessionShape,
         script: z.string().describe('JavaScript code to execute')
       },
       annotations: {
@@ -133,6 +340,49 @@ export class McpTool {
     };
   }
 
+  /**
+   * Creates MCP tool for filling form fields
+   *
+   * Sets text inputs, textareas, selects, checkboxes, radios, date and
+   * number inputs, and contenteditable regions from a map of field
+   * identifiers to values, reporting each field's outcome.
+   */
+  fill() {
+    return {
+      description: 'Fill many form fields in one call',
+      inputSchema: {
+        ...sessionShape,
+        fields: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).describe('Map of field identifiers (CSS selector, label text, name, or placeholder) to values')
+      },
+      outputSchema: {
+        fields: z.array(z.object({
+          field: z.string().describe('Field identifier as given'),
+          ok: z.boolean().describe('Whether the field was set'),
+          element: z.string().optional().describe('Resolved element, e.g. `input[type=email][name=email]#email`'),
+          error: z.string().optional().describe('Failure reason, when the field was not set')
+        })).describe('Outcome per field, in input order'),
+        filled: z.number().describe('Number of fields set'),
+        failed: z.number().describe('Number of fields not set')
+      },
+      annotations: {
+        title: 'Fill',
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false
+      },
+      _meta: {
+        usage: [
+          'Identifiers are tried as a CSS selector, then label or `aria-label` text, `name`, and `placeholder`',
+          'Checkboxes take `true` or `false`; radios take the option value or label text',
+          'Selects match the option value, then its visible text',
+          'Date and number inputs need values in their input format, e.g. `2026-03-14` for a date',
+          'File inputs are not filled, use `upload` to attach files',
+          'Check `failed` and retry those fields with a more specific selector'
+        ]
+      }
+    };
+  }
+
   /**
    * Creates MCP tool for hovering over an element
    *
@@ -144,6 +394,8 @@ export class McpTool {
     return {
       description: 'Hover over an element to reveal hover-triggered UI',
       inputSchema: {
+        ...sessionShape,
+        ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector and text)'),
         selector: z.string().optional().describe('CSS selector for the target element'),
         text: z.string().optional().describe('Visible text to match (case-insensitive partial match)')
       },
@@ -156,7 +408,7 @@ export class McpTool {
       _meta: {
         usage: [
           'Always use `read` first to discover real selectors on the page',
-          'Provide either `selector` or `text` to identify the target',
+          'Provide either `selector`, `text`, or `ref` to identify the target',
           'Useful for revealing dropdown menus, tooltips, and other hover-triggered UI'
         ]
       }
@@ -175,7 +427,8 @@ export class McpTool {
       description: 'Inspect a page element by CSS selector',
       inputSchema: {
         index: z.coerce.number().optional().describe('Tab index in the front window; defaults to the current tab'),
-        selector: z.string().describe('CSS selector for the target element')
+        selector: z.string().describe('CSS selector for the target element'),
+        ...observeSessionShape
       },
       outputSchema: {
         found: z.boolean().describe('Whether the selector matched any element'),
@@ -202,7 +455,8 @@ export class McpTool {
           'Always use `read` first to discover real selectors on the page',
           'Use before `click` to verify an element exists, is visible, and is enabled',
           'Use to disambiguate between multiple elements matching a partial text search',
-          'Use `index` to inspect a tab in the front window without switching focus to it'
+          'Use `index` to inspect a tab in the front window without switching focus to it',
+          'Use `session` to inspect the working tab of a named session'
         ]
       }
     };
@@ -219,6 +473,8 @@ export class McpTool {
     return {
       description: 'Navigate to a URL or through browser history (back/forward)',
       inputSchema: {
+        ...sessionShape,
+        ...settleShape,
         direction: z.enum(['back', 'forward']).optional().describe('Navigate back or forward in browser history'),
         selector: z.string().optional().describe('CSS selector to wait for after page load'),
         steps: z.coerce.number().default(1).describe('Number of steps for back/forward navigation'),
@@ -228,8 +484,10 @@ export class McpTool {
         title: z.string().describe('Page title after navigation'),
         url: z.string().describe('Final URL after navigation'),
         ...pageDimensionsShape,
+        changes: z.array(z.string()).optional().describe('Detected changes such as url changed, focus moved, or dialog appeared'),
         tabs: z.number().describe('Total tab count'),
-        selectorFound: z.boolean().optional().describe('Whether the selector was found, when provided')
+        selectorFound: z.boolean().optional().describe('Whether the selector was found, when provided'),
+        ...settledShape
       },
       annotations: {
         title: 'Navigate',
@@ -240,7 +498,65 @@ export class McpTool {
       _meta: {
         usage: [
           'Use `read` after navigating to understand available content',
-          'Use `direction` parameter for history navigation instead of re-entering URLs'
+          'Use `direction` parameter for history navigation instead of re-entering URLs',
+          'Use `networkIdle: 500` for single-page apps that keep fetching after load, before `screenshot` or `read`'
+        ]
+      }
+    };
+  }
+
+  /**
+   * Creates MCP tool for inspecting captured network activity
+   *
+   * Lists fetch, XHR, WebSocket, and beacon requests recorded since the
+   * page loaded, optionally filtered by URL pattern or status, or clears
+   * the recorded log.
+   */
+  network() {
+    return {
+      description: 'List or clear network requests captured on the page',
+      inputSchema: {
+        action: z.enum(['clear', 'list']).default('list').describe('List captured requests or clear the log'),
+        bodies: z.coerce.boolean().default(false).describe('Include truncated request and response bodies'),
+        index: z.coerce.number().optional().describe('Tab index in the front window; defaults to the current tab'),
+        status: z.string().optional().describe('Status filter: exact code (404), class (4xx), or "failed"'),
+        url: z.string().optional().describe('URL filter: case-insensitive substring, or /regex/'),
+        ...observeSessionShape
+      },
+      outputSchema: {
+        requests: z.array(z.object({
+          id: z.number().describe('Sequential request id'),
+          type: z.enum(['beacon', 'fetch', 'websocket', 'xhr']).describe('Request API'),
+          method: z.string().describe('HTTP method'),
+          url: z.string().describe('Resolved request URL'),
+          status: z.number().optional().describe('HTTP status, 101 for open WebSockets; absent while in flight'),
+          startTime: z.number().describe('Start time in epoch milliseconds'),
+          duration: z.number().optional().describe('Duration in milliseconds; absent while in flight'),
+          requestBody: z.string().optional().describe('Truncated request body, when bodies is true'),
+          responseBody: z.string().optional().describe('Truncated textual response body, when bodies is true'),
+          error: z.string().optional().describe('Failure description, when the request failed'),
+          messagesSent: z.number().optional().describe('WebSocket messages sent'),
+          messagesReceived: z.number().optional().describe('WebSocket messages received')
+        })).optional().describe('Matching requests, oldest first; present for the list action'),
+        total: z.number().optional().describe('Total captured requests before filtering; present for the list action'),
+        pending: z.number().optional().describe('In-flight fetch and XHR requests; present for the list action'),
+        cleared: z.number().optional().describe('Number of entries removed; present for the clear action')
+      },
+      annotations: {
+        title: 'Network',
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      },
+      _meta: {
+        'anthropic/maxResultSizeChars': 500000,
+        usage: [
+          'Use to debug API calls behind the UI after `navigate`, `click`, or `type`',
+          'Use `status: "failed"` to find errored requests, or `status: "4xx"` for a status class',
+          'Use `url` with a case-insensitive substring such as `api/` to narrow the list',
+          'Wrap `url` in slashes, such as `/\\/v\\d+\\/users/`, to match it as a regular expression instead',
+          'Use `bodies: true` only when payloads are needed, bodies are truncated to 2000 characters',
+          'Use `action: "clear"` before an interaction to capture only the requests it triggers'
         ]
       }
     };
@@ -255,6 +571,9 @@ export class McpTool {
   open() {
     return {
       description: 'Open a blank tab as the working target',
+      inputSchema: {
+        ...sessionShape
+      },
       outputSchema: {
         opened: z.boolean().describe('True after the working tab is created')
       },
@@ -268,6 +587,7 @@ export class McpTool {
         usage: [
           'Use `navigate` directly to open a tab at a URL',
           'Use `open` to get a blank tab without navigating',
+          'Use `session` to give each parallel task its own working tab, then pass the same `session` to every act tool',
           'Read all `_meta.usage` guidance before using any tools'
         ]
       }
@@ -277,16 +597,19 @@ export class McpTool {
   /**
    * Creates MCP tool for reading page content
    *
-   * Extracts the page title, current URL, and visible text content
-   * from the current page or a specific element.
+   * Extracts the page title, current URL, and visible text content,
+   * Markdown, or anchor links from the current page or a specific element.
    */
   read() {
     return {
-      description: 'Get the page title, URL, and either text content or anchor links',
+      description: 'Get the page title, URL, and either text content, Markdown, or anchor links',
       inputSchema: {
+        cursor: z.string().optional().describe('Continuation cursor from a previous `nextCursor` to read the next chunk'),
         index: z.coerce.number().optional().describe('Tab index in the front window; defaults to the current tab'),
-        mode: z.enum(['text', 'links']).default('text').describe('Extraction mode: full text content or anchor links'),
-        selector: z.string().optional().describe('CSS selector to scope extraction')
+        maxChars: z.coerce.number().optional().describe('Character budget per chunk; enables pagination with `nextCursor`'),
+        mode: z.enum(['text', 'links', 'markdown', 'snapshot']).default('text').describe('Extraction mode: full text content, anchor links, structured Markdown, or accessibility snapshot'),
+        selector: z.string().optional().describe('CSS selector to scope extraction'),
+        ...observeSessionShape
       },
       outputSchema: {
         title: z.string().describe('Page title'),
@@ -296,7 +619,11 @@ export class McpTool {
           text: z.string().describe('Visible link text'),
           href: z.string().describe('Resolved link URL')
         })).optional().describe('Anchor links; present when mode is "links"'),
+        markdown: z.string().optional().describe('Structured Markdown content; present when mode is "markdown"'),
+        snapshot: z.string().optional().describe('Indented role/name/state tree with element ref IDs; present when mode is "snapshot"'),
         pages: z.number().describe('Number of viewport-sized pages'),
+        totalLength: z.number().optional().describe('Total characters of extracted content, or total links in links mode; present when paginating'),
+        nextCursor: z.string().optional().describe('Cursor for the next chunk; present when content remains'),
         errors: z.array(z.string()).optional().describe('Console errors captured during the page session, when any'),
         warnings: z.array(z.string()).optional().describe('Console warnings captured during the page session, when any')
       },
@@ -311,8 +638,13 @@ export class McpTool {
         usage: [
           'Use after navigating to understand available content',
           'Use `mode: "links"` to enumerate anchor links on the page',
+          'Use `mode: "markdown"` to keep headings, lists, tables, code blocks, and link targets',
+          'Use `mode: "snapshot"` to list landmarks and interactive elements with `ref` IDs accepted by `click`, `hover`, `select`, and `type`',
+          'Take a new snapshot after navigation, refs only exist on the page that produced them',
           'Use `selector` to scope extraction to specific page sections',
-          'Use `index` to read a tab in the front window without switching focus to it'
+          'Use `maxChars` on long pages, then pass each `nextCursor` back as `cursor` until it is absent',
+          'Use `index` to read a tab in the front window without switching focus to it',
+          'Use `session` to read the working tab of a named session'
         ]
       }
     };
@@ -328,6 +660,8 @@ export class McpTool {
     return {
       description: 'Refresh the current browser page',
       inputSchema: {
+        ...sessionShape,
+        ...settleShape,
         hard: z.coerce.boolean().default(false).describe('Bypass browser cache with hard refresh'),
         selector: z.string().optional().describe('CSS selector to wait for after reload')
       },
@@ -335,8 +669,10 @@ export class McpTool {
         title: z.string().describe('Page title after refresh'),
         url: z.string().describe('Page URL after refresh'),
         ...pageDimensionsShape,
+        changes: z.array(z.string()).optional().describe('Detected changes such as url changed, focus moved, or dialog appeared'),
         tabs: z.number().describe('Total tab count'),
-        selectorFound: z.boolean().optional().describe('Whether the selector was found, when provided')
+        selectorFound: z.boolean().optional().describe('Whether the selector was found, when provided'),
+        ...settledShape
       },
       annotations: {
         title: 'Refresh',
@@ -346,7 +682,52 @@ export class McpTool {
       },
       _meta: {
         usage: [
-          'Use `hard` parameter when CSS or asset changes are not reflected after a normal refresh'
+          'Use `hard` parameter when CSS or asset changes are not reflected after a normal refresh',
+          'Use `networkIdle` or `domStable` when the page keeps loading content after reload'
+        ]
+      }
+    };
+  }
+
+  /**
+   * Creates MCP tool for replaying a recorded flow
+   *
+   * Runs the steps of a flow file recorded with `SAFARI_FLOW` again and
+   * checks the title, URL, and selector assertions of each step.
+   */
+  replay() {
+    return {
+      description: 'Replay a recorded flow file and check its assertions',
+      inputSchema: {
+        continueOnError: z.boolean().optional().default(false).describe('Keep replaying after a failed step'),
+        path: z.string().min(1).describe('Flow file path, as recorded with `SAFARI_FLOW`')
+      },
+      outputSchema: {
+        steps: z.array(z.object({
+          step: z.number().describe('Step number in the flow file (1-based)'),
+          tool: z.string().describe('Tool the step ran'),
+          ok: z.boolean().describe('Whether the step and its assertions passed'),
+          error: z.object({
+            code: z.string().describe('Error code, `assertion_failed` for a failed assertion'),
+            message: z.string().describe('Error message')
+          }).optional().describe('Step failure, when the step failed')
+        })).describe('Outcomes of the steps that ran, in order'),
+        passed: z.number().describe('Number of steps that passed'),
+        failed: z.number().describe('Number of steps that failed'),
+        skipped: z.number().describe('Number of steps not run, either recorded as failed or after a failed step')
+      },
+      annotations: {
+        title: 'Replay',
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      },
+      _meta: {
+        usage: [
+          'Record a flow by starting the server with `SAFARI_FLOW` set to the flow file path',
+          'Each step `expect` holds the recorded `title` and `url`; add a `selector` to assert an element exists',
+          'Edit or remove `expect` entries for pages whose title or URL changes between runs',
+          'Run `mcp-safari replay <flow.json>` to replay a flow outside an MCP client'
         ]
       }
     };
@@ -367,7 +748,8 @@ export class McpTool {
         mode: z.enum(['element', 'page', 'screen', 'window']).default('window').describe('Capture mode'),
         selector: z.string().optional().describe('CSS selector for element mode'),
         settle: z.coerce.number().optional().describe('Page mode: ms to wait after each scroll for content to settle (default 500)'),
-        share: z.coerce.boolean().default(false).describe('Save to disk and return path instead of inline image')
+        share: z.coerce.boolean().default(false).describe('Save to disk and return path instead of inline image'),
+        ...observeSessionShape
       },
       annotations: {
         title: 'Screenshot',
@@ -386,7 +768,8 @@ export class McpTool {
           'Use `mode: "screen"` to capture the entire display, including content outside Safari',
           'Use `display` with `mode: "screen"` to target a specific display (1-based) on multi-monitor setups',
           'Use `share: true` to save the image to the user screenshot folder and return only the path',
-          'Use `scroll` to position the viewport before capturing in window mode'
+          'Use `scroll` to position the viewport before capturing in window mode',
+          'Use `session` to capture the working tab of a named session, which becomes the current tab of its window'
         ]
       }
     };
@@ -402,6 +785,7 @@ export class McpTool {
     return {
       description: 'Scroll to specific viewport page or by direction with pixel amount',
       inputSchema: {
+        ...sessionShape,
         direction: z.enum(['up', 'down']).optional().describe('Scroll direction'),
         page: z.coerce.number().optional().describe('Scroll to a specific viewport-sized page number'),
         pixels: z.coerce.number().optional().describe('Number of pixels to scroll')
@@ -435,13 +819,15 @@ export class McpTool {
     return {
       description: "Search the web using browser's default search engine",
       inputSchema: {
+        ...sessionShape,
         text: z.string().describe('Search query')
       },
       outputSchema: {
         title: z.string().describe('Search results page title'),
         url: z.string().describe('Search results page URL'),
         ...pageDimensionsShape,
-        tabs: z.number().describe('Total tab count')
+        tabs: z.number().describe('Total tab count'),
+        changes: z.array(z.string()).optional().describe('Detected changes such as url changed, focus moved, or dialog appeared')
       },
       annotations: {
         title: 'Search',
@@ -467,7 +853,9 @@ export class McpTool {
     return {
       description: 'Choose an option in a <select> element',
       inputSchema: {
-        selector: z.string().describe('CSS selector for the target <select> element'),
+        ...sessionShape,
+        ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector)'),
+        selector: z.string().optional().describe('CSS selector for the target <select> element'),
         text: z.string().optional().describe('Option visible text (case-insensitive partial match)'),
         value: z.string().optional().describe('Option value attribute (takes precedence over text)')
       },
@@ -479,6 +867,7 @@ export class McpTool {
       },
       _meta: {
         usage: [
+          'Provide either `selector` or `ref` to identify the <select> element',
           'Provide either `value` or `text`; if both are passed, `value` wins',
           'Use `inspect` first to confirm the target is a <select> element'
         ]
@@ -505,7 +894,19 @@ export class McpTool {
           outputSchema: z.unknown().optional(),
           annotations: z.unknown().optional(),
           usage: z.array(z.string()).optional()
-        })).describe('All available tools with their schemas and usage guidance')
+        })).describe('All available tools with their schemas and usage guidance'),
+        queue: z.array(z.object({
+          tab: z.string().describe('Tab key as window id and tab index'),
+          running: z.number().describe('Operations running on the tab'),
+          waiting: z.number().describe('Operations queued behind them')
+        })).describe('Operation queue depth per tab with pending work'),
+        sessions: z.array(z.object({
+          name: z.string().describe('Session name'),
+          closed: z.boolean().describe('Whether the working tab can no longer be found'),
+          index: z.number().describe('Working tab index (1-based)'),
+          url: z.string().describe('Working tab URL'),
+          windowId: z.number().describe('Window identifier of the working tab')
+        })).describe('Named sessions with their working tabs')
       },
       annotations: {
         title: 'Status',
@@ -516,7 +917,8 @@ export class McpTool {
       _meta: {
         usage: [
           'Call once at session start to learn the tool surface and current Safari state',
-          'Each tool entry includes its `usage` array of natural-language hints'
+          'Each tool entry includes its `usage` array of natural-language hints',
+          'Check `sessions` to see which working tab each named session targets'
         ]
       }
     };
@@ -525,15 +927,20 @@ export class McpTool {
   /**
    * Creates MCP tool for typing text into input elements
    *
-   * Sets the value of input fields with proper event dispatching
-   * for framework reactivity, with optional form submission.
+   * Sets the value of input fields and contenteditable regions with proper
+   * event dispatching for framework reactivity, or types one keystroke at a
+   * time for listeners that need key events, with optional form submission.
    */
   type() {
     return {
       description: 'Type text into a page input field',
       inputSchema: {
+        ...sessionShape,
         append: z.coerce.boolean().default(false).describe('Append to existing value instead of replacing'),
-        selector: z.string().optional().describe('CSS selector for the target input'),
+        delay: z.coerce.number().min(0).max(1000).optional().describe('Milliseconds between keystrokes in `keys` mode'),
+        mode: z.enum(['keys', 'set']).default('set').describe('`set` assigns the value at once, `keys` types one keystroke at a time'),
+        ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector)'),
+        selector: z.string().optional().describe('CSS selector for the target input or contenteditable region'),
         submit: z.coerce.boolean().default(false).describe('Submit form by pressing Enter after typing'),
         text: z.string().describe('Text to type')
       },
@@ -546,7 +953,91 @@ export class McpTool {
       _meta: {
         usage: [
           'Use `read` before typing to identify available input fields',
-          'Use `submit` parameter to submit forms instead of separate `click` actions'
+          'Use `submit` parameter to submit forms instead of separate `click` actions',
+          'Use `keys` mode for autocompletes, masked inputs, OTP fields, and editors listening for `keydown` or `beforeinput`',
+          'Add a `delay` in `keys` mode when suggestions or validation react to keystroke timing'
+        ]
+      }
+    };
+  }
+
+  /**
+   * Creates MCP tool for uploading local files
+   *
+   * Reads local files in the server process and attaches them to a file
+   * input, or drops them on a drop zone, on the working tab.
+   */
+  upload() {
+    return {
+      description: 'Attach local files to a file input or drop zone',
+      inputSchema: {
+        ...sessionShape,
+        paths: z.array(z.string().min(1)).min(1).describe('Local file paths to attach inside the upload directory, `~` expands to the home directory'),
+        ref: z.string().optional().describe('Element ref ID from a `read` snapshot (takes precedence over selector)'),
+        selector: z.string().optional().describe('CSS selector for the file input or drop zone; defaults to the first file input')
+      },
+      outputSchema: {
+        element: z.string().describe('Resolved target, e.g. `input[type=file][name=avatar]`'),
+        target: z.enum(['drop', 'input']).describe('Whether the files were assigned to a file input or dropped on an element'),
+        files: z.array(z.object({
+          name: z.string().describe('File name'),
+          size: z.number().describe('File size in bytes'),
+          type: z.string().describe('File MIME type')
+        })).describe('Files the input holds afterwards, or the files dropped'),
+        accepted: z.boolean().describe('Whether the input holds every file, or a drop handler accepted the drop')
+      },
+      annotations: {
+        title: 'Upload',
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      },
+      _meta: {
+        usage: [
+          'File inputs are often hidden; omit `selector` to use the first file input on the page',
+          'Point `selector` at a drop zone to dispatch a drop event instead',
+          'Pass several `paths` only to inputs with the `multiple` attribute',
+          'Uploads are limited to 25 MB in total',
+          'Only files inside the `SAFARI_UPLOAD_DIR` directory (default `~/Downloads`) can be attached; relative paths resolve against it'
+        ]
+      }
+    };
+  }
+
+  /**
+   * Creates MCP tool for resizing the browser viewport
+   *
+   * Resizes the working tab's window so the page viewport matches a named
+   * preset or a custom size, then reports the resulting viewport dimensions.
+   */
+  viewport() {
+    return {
+      description: 'Resize the browser viewport to a preset or custom size',
+      inputSchema: {
+        ...sessionShape,
+        height: z.coerce.number().optional().describe('Viewport height in pixels (custom preset only)'),
+        preset: z.enum(['custom', 'desktop', 'mobile', 'tablet']).default('desktop').describe('Viewport preset: desktop 1440x900, tablet 820x1180, mobile 390x844, or custom'),
+        width: z.coerce.number().optional().describe('Viewport width in pixels (custom preset only)')
+      },
+      outputSchema: {
+        preset: z.string().describe('Applied viewport preset'),
+        width: z.number().describe('Requested viewport width in pixels'),
+        height: z.number().describe('Requested viewport height in pixels'),
+        innerWidth: z.number().describe('Resulting viewport width in pixels'),
+        innerHeight: z.number().describe('Resulting viewport height in pixels')
+      },
+      annotations: {
+        title: 'Viewport',
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      },
+      _meta: {
+        usage: [
+          'Use before `screenshot` to capture pages at a reproducible size',
+          'Use `preset: "mobile"` or `preset: "tablet"` to check responsive layouts',
+          'Use `preset: "custom"` with both `width` and `height` parameters for any other size',
+          'Compare `innerWidth` and `innerHeight` with the requested size, Safari clamps windows to the screen'
         ]
       }
     };
@@ -561,16 +1052,20 @@ export class McpTool {
    */
   wait() {
     return {
-      description: 'Wait for a selector to appear, disappear, or text to appear',
+      description: 'Wait for a selector to appear or disappear, text to appear, or the network or DOM to settle',
       inputSchema: {
+        domStable: z.coerce.number().optional().describe('Milliseconds without DOM mutations to wait for'),
+        networkIdle: z.coerce.number().optional().describe('Milliseconds without in-flight fetch/XHR to wait for'),
         selector: z.string().optional().describe('CSS selector to wait for'),
         selectorGone: z.string().optional().describe('CSS selector to wait for absence of'),
         text: z.string().optional().describe('Page text to wait for (substring match in body innerText)'),
-        timeoutMs: z.coerce.number().optional().describe('Timeout in milliseconds; defaults to the configured page-load timeout')
+        timeoutMs: z.coerce.number().optional().describe('Timeout in milliseconds; defaults to the configured page-load timeout'),
+        ...observeSessionShape
       },
       outputSchema: {
         matched: z.boolean().describe('Whether the condition was met before timeout'),
-        elapsedMs: z.number().describe('How long the wait took, in milliseconds')
+        elapsedMs: z.number().describe('How long the wait took, in milliseconds'),
+        polls: z.number().describe('Safari round trips spent checking the in-page watcher')
       },
       annotations: {
         title: 'Wait',
@@ -580,9 +1075,11 @@ export class McpTool {
       },
       _meta: {
         usage: [
-          'Provide exactly one of `selector`, `selectorGone`, or `text`',
+          'Provide exactly one of `selector`, `selectorGone`, `text`, `networkIdle`, or `domStable`',
           'Use after navigation when the page content loads asynchronously',
-          'Use `selectorGone` to wait for a loading spinner to disappear'
+          'Use `selectorGone` to wait for a loading spinner to disappear',
+          'Use `networkIdle` (e.g. 500) to wait for API calls to finish, or `domStable` for rendering to stop',
+          'Use `session` to wait on the working tab of a named session'
         ]
       }
     };
@@ -596,14 +1093,23 @@ export class McpTool {
    */
   window() {
     return {
-      description: 'Manage browser window tabs',
+      description: 'Manage browser windows and their tabs',
       inputSchema: {
-        action: z.enum(['close', 'list', 'open', 'switch']).describe('Tab action to perform'),
-        index: z.coerce.number().optional().describe('Tab index for close and switch actions'),
-        url: z.string().optional().describe('URL to open in a new tab (open action only)')
+        ...sessionShape,
+        action: z.enum(['close', 'closeWindow', 'list', 'move', 'open', 'openWindow', 'switch']).describe('Window or tab action to perform'),
+        index: z.coerce.number().optional().describe('Tab index for close, move, and switch actions'),
+        private: z.boolean().optional().default(false).describe('Open a private window (openWindow action only)'),
+        toWindowId: z.coerce.number().optional().describe('Destination window id (move action only)'),
+        url: z.string().optional().describe('URL to open in a new tab or window (open and openWindow actions only)'),
+        windowId: z.coerce.number().optional().describe('Window id to act on; defaults to the front window')
       },
       outputSchema: {
-        tabs: z.array(z.object(tabShape)).describe('Array of tab info after the action')
+        tabs: z.array(z.object(tabShape)).describe('Array of tab info in the affected window after the action'),
+        windowId: z.number().optional().describe('Window holding the tab after `move`, or the window created by `openWindow`'),
+        windows: z.array(z.object({
+          id: z.number().describe('Window identifier'),
+          tabs: z.array(z.object(tabShape)).describe('Tabs in the window')
+        })).optional().describe('Every Safari window, front first (list action only)')
       },
       annotations: {
         title: 'Window',
@@ -614,9 +1120,13 @@ export class McpTool {
       _meta: {
         usage: [
           'Use `action: "close"` parameter value with `index` parameter to close a specific tab without closing the window',
-          'Use `action: "list"` parameter value to see all open tabs with their index, title, URL, and which is active',
+          'Use `action: "closeWindow"` parameter value with `windowId` to close a whole window and all its tabs',
+          'Use `action: "list"` parameter value to see all windows and their tabs with index, title, URL, and which is active',
+          'Use `action: "move"` parameter value with `index` and `toWindowId` to move a tab to the end of another window',
           'Use `action: "open"` parameter value to create a new tab, optionally with a URL',
-          'Use `action: "switch"` parameter value with `index` to change the active tab'
+          'Use `action: "openWindow"` parameter value to create a new window, with `private: true` for private browsing',
+          'Use `action: "switch"` parameter value with `index` to change the active tab, or `windowId` to bring a window to the front',
+          'Use `windowId` from `action: "list"` to target a window other than the front one'
         ]
       }
     };